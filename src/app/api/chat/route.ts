@@ -1,73 +1,197 @@
-import { NextRequest, NextResponse } from "next/server";
+import { after, NextRequest, NextResponse } from "next/server";
 import {
-  GEMINI_TOOL_DECLARATIONS,
+  createEmptyMemory,
+  describeMemory,
+  extractFacts,
+  extractFormFacts,
+  formatMessagesForSummary,
+  MAX_SUMMARY_CHARS,
+  rememberFacts,
+} from "@/lib/conversation-memory";
+import {
+  buildTranscript,
+  createChatProvider,
+  ProviderConfigError,
+  type ChatProvider,
+  type ProviderFunctionCall,
+  type TranscriptEntry,
+} from "@/lib/providers";
+import {
+  createSessionId,
+  getSessionStore,
+  isSessionId,
+  SessionConfigError,
+  type ChatSession,
+} from "@/lib/sessions";
+import { recallSnapshot, rememberSnapshot } from "@/lib/snapshot-cache";
+import { applySnapshotDiff } from "@/lib/snapshot-diff";
+import {
+  pruneSnapshot,
+  type PrunedSnapshot,
+  type RelevanceFocus,
+} from "@/lib/snapshot-pruning";
+import { formatSseEvent } from "@/lib/sse";
+import {
+  DRY_RUN_PREFIX,
   MAX_TOOL_CALLS_PER_TURN,
+  TOOL_DECLARATIONS,
+  TOOL_NAME_PATTERN,
+  type ToolDeclaration,
+  type ToolParameterSchema,
 } from "@/lib/tool-definitions";
 import type {
+  AgentStopReason,
   ChatMessage,
   ChatRequest,
   ChatResponse,
+  ChatStreamEvent,
   PageSnapshot,
+  PanelAction,
+  SnapshotDiff,
   ToolCall,
   ToolName,
   ToolResult,
 } from "@/lib/types";
 
-const GEMINI_MODEL = process.env.GEMINI_MODEL ?? "gemini-2.5-flash";
 const HISTORY_WINDOW = 10;
+const MAX_AGENT_STEPS = Math.max(1, Number(process.env.AGENT_MAX_STEPS) || 4);
+const SNAPSHOT_BUDGET_CHARS = Math.max(
+  2000,
+  Number(process.env.SNAPSHOT_BUDGET_CHARS) || 12000
+);
+const RELEVANCE_HISTORY_WINDOW = 4;
+const CURRENT_TURN_WINDOW = 1 + MAX_AGENT_STEPS * (MAX_TOOL_CALLS_PER_TURN + 1);
+const MAX_MANIFEST_TOOLS = 24;
+const MAX_SCHEMA_DEPTH = 4;
+const MAX_TOOL_OUTPUT_CHARS = 5000;
+const PARAMETER_TYPES = ["object", "string", "number", "boolean", "array"];
+const MAX_SESSION_MESSAGES = 200;
+const MAX_PANEL_ACTIONS = 30;
+// Earlier turns are folded into the running summary this many at a time.
+const SUMMARY_BATCH = 6;
+const SUMMARY_TIMEOUT_MS = 30000;
 
-interface GeminiFunctionCall {
-  name?: string;
-  args?: unknown;
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
 }
 
-interface GeminiPart {
-  text?: string;
-  functionCall?: GeminiFunctionCall;
+function isToolCall(item: unknown): item is ToolCall {
+  return (
+    isRecord(item) &&
+    typeof item.id === "string" &&
+    typeof item.name === "string" &&
+    TOOL_NAME_PATTERN.test(item.name) &&
+    isRecord(item.args)
+  );
 }
 
-interface GeminiCandidate {
-  content?: {
-    parts?: GeminiPart[];
-  };
+function isToolResult(item: unknown): item is ToolResult {
+  return (
+    isRecord(item) &&
+    typeof item.toolCallId === "string" &&
+    typeof item.name === "string" &&
+    typeof item.success === "boolean" &&
+    typeof item.output === "string"
+  );
 }
 
-interface GeminiResponse {
-  candidates?: GeminiCandidate[];
-}
+function isParameterSchema(value: unknown, depth: number): value is ToolParameterSchema {
+  if (!isRecord(value) || depth > MAX_SCHEMA_DEPTH) {
+    return false;
+  }
 
-const TOOL_NAMES: ToolName[] = [
-  "scroll_by",
-  "navigate_to_section",
-  "click_element",
-  "highlight_element",
-  "fill_input",
-];
+  const { type, description, properties, items, required } = value;
 
-function isRecord(value: unknown): value is Record<string, unknown> {
-  return typeof value === "object" && value !== null && !Array.isArray(value);
+  return (
+    typeof type === "string" &&
+    PARAMETER_TYPES.includes(type) &&
+    (description === undefined || typeof description === "string") &&
+    (properties === undefined ||
+      (isRecord(properties) &&
+        Object.values(properties).every((item) => isParameterSchema(item, depth + 1)))) &&
+    (items === undefined || isParameterSchema(items, depth + 1)) &&
+    (required === undefined ||
+      (Array.isArray(required) && required.every((key) => typeof key === "string")))
+  );
 }
 
-function toHistory(history: unknown): ChatMessage[] {
-  if (!Array.isArray(history)) {
-    return [];
+function isToolDeclaration(item: unknown): item is ToolDeclaration {
+  return (
+    isRecord(item) &&
+    typeof item.name === "string" &&
+    TOOL_NAME_PATTERN.test(item.name) &&
+    typeof item.description === "string" &&
+    isParameterSchema(item.parameters, 0) &&
+    item.parameters.type === "object"
+  );
+}
+
+function toToolManifest(tools: unknown): ToolDeclaration[] {
+  if (!Array.isArray(tools)) {
+    return TOOL_DECLARATIONS;
   }
 
-  return history
-    .filter((item): item is ChatMessage => {
-      return (
-        isRecord(item) &&
-        typeof item.role === "string" &&
-        typeof item.content === "string" &&
-        typeof item.createdAt === "string"
-      );
-    })
-    .slice(-HISTORY_WINDOW)
-    .map((message) => ({
-      role: message.role,
-      content: message.content.slice(0, 1200),
-      createdAt: message.createdAt,
-    }));
+  const manifest = new Map<string, ToolDeclaration>();
+  for (const tool of tools.filter(isToolDeclaration)) {
+    if (manifest.size >= MAX_MANIFEST_TOOLS) {
+      break;
+    }
+
+    if (!manifest.has(tool.name)) {
+      manifest.set(tool.name, {
+        name: tool.name,
+        description: tool.description.slice(0, 400),
+        parameters: tool.parameters,
+      });
+    }
+  }
+
+  return Array.from(manifest.values());
+}
+
+function isChatMessage(item: unknown): item is ChatMessage {
+  return (
+    isRecord(item) &&
+    (item.role === "user" || item.role === "assistant" || item.role === "tool") &&
+    typeof item.content === "string" &&
+    typeof item.createdAt === "string"
+  );
+}
+
+function toChatMessage(message: ChatMessage): ChatMessage {
+  return {
+    role: message.role,
+    content: message.content.slice(0, 1200),
+    createdAt: message.createdAt,
+    ...(message.role === "tool" &&
+    isToolCall(message.toolCall) &&
+    isToolResult(message.toolResult)
+      ? {
+          toolCall: message.toolCall,
+          toolResult: {
+            ...message.toolResult,
+            output: message.toolResult.output.slice(0, 1200),
+          },
+        }
+      : {}),
+  };
+}
+
+function toHistory(history: unknown, message: string, window = HISTORY_WINDOW): ChatMessage[] {
+  const messages = Array.isArray(history) ? history.filter(isChatMessage) : [];
+  const lastUserIndex = messages.map((item) => item.role).lastIndexOf("user");
+  const hasCurrentTurn =
+    lastUserIndex !== -1 && messages[lastUserIndex].content.trim() === message;
+
+  const previousTurns = hasCurrentTurn ? messages.slice(0, lastUserIndex) : messages;
+  const currentTurn = hasCurrentTurn
+    ? messages.slice(lastUserIndex)
+    : [{ role: "user" as const, content: message, createdAt: new Date().toISOString() }];
+
+  return [
+    ...previousTurns.slice(-window),
+    ...currentTurn.slice(0, CURRENT_TURN_WINDOW),
+  ].map(toChatMessage);
 }
 
 function toToolResults(toolResults: unknown): ToolResult[] {
@@ -76,16 +200,356 @@ function toToolResults(toolResults: unknown): ToolResult[] {
   }
 
   return toolResults
-    .filter((item): item is ToolResult => {
+    .filter(isToolResult)
+    .slice(0, MAX_TOOL_CALLS_PER_TURN * MAX_AGENT_STEPS)
+    .map((result) => ({ ...result, output: result.output.slice(0, MAX_TOOL_OUTPUT_CHARS) }));
+}
+
+function toIssuedToolCalls(toolCalls: unknown): ToolCall[] {
+  if (!Array.isArray(toolCalls)) {
+    return [];
+  }
+
+  return toolCalls
+    .filter(isToolCall)
+    .slice(0, MAX_TOOL_CALLS_PER_TURN * MAX_AGENT_STEPS);
+}
+
+function isPanelAction(item: unknown): item is PanelAction {
+  if (!isRecord(item) || !isToolCall(item.toolCall) || !isToolResult(item.toolResult)) {
+    return false;
+  }
+
+  switch (item.kind) {
+    case "undo":
+      return isStringArray(item.undoneCallIds) && item.undoneCallIds.length > 0;
+    case "plan_run":
+      return typeof item.previewCallId === "string";
+    case "jump":
+    case "late_result":
+      return true;
+    default:
+      return false;
+  }
+}
+
+function toPanelActions(panelActions: unknown): PanelAction[] {
+  if (!Array.isArray(panelActions)) {
+    return [];
+  }
+
+  return panelActions
+    .filter(isPanelAction)
+    .slice(0, MAX_PANEL_ACTIONS)
+    .map((action) => ({
+      ...action,
+      toolResult: {
+        ...action.toolResult,
+        output: action.toolResult.output.slice(0, MAX_TOOL_OUTPUT_CHARS),
+      },
+    }));
+}
+
+function createToolMessage(call: ToolCall, result: ToolResult): ChatMessage {
+  return {
+    role: "tool",
+    content: `${result.name}: ${result.output}`,
+    createdAt: new Date().toISOString(),
+    toolCall: call,
+    toolResult: result,
+  };
+}
+
+function currentTurnToolMessages(messages: ChatMessage[]): ChatMessage[] {
+  const lastUserIndex = messages.map((item) => item.role).lastIndexOf("user");
+  return messages
+    .slice(lastUserIndex + 1)
+    .filter((item) => item.role === "tool" && item.toolCall && item.toolResult);
+}
+
+function isPreviewOf(item: ChatMessage, call: ToolCall, previewCallId: string): boolean {
+  return (
+    item.toolCall?.id === previewCallId &&
+    item.toolCall.name === call.name &&
+    item.toolResult?.success === true &&
+    item.toolResult.output.startsWith(DRY_RUN_PREFIX)
+  );
+}
+
+// Checks one panel action against the session. Undo presses may only name
+// calls the transcript has, plan runs must follow a preview this session
+// recorded, jump links only navigate, and late results must answer a call
+// that was still pending when the user pressed Stop.
+function isValidPanelAction(
+  session: ChatSession,
+  knownIds: Set<string>,
+  action: PanelAction
+): boolean {
+  const { toolCall, toolResult } = action;
+  if (toolResult.toolCallId !== toolCall.id || toolResult.name !== toolCall.name) {
+    return false;
+  }
+
+  switch (action.kind) {
+    case "undo":
+      return (
+        toolCall.name === "undo_last_action" &&
+        action.undoneCallIds.every((id) => knownIds.has(id))
+      );
+    case "plan_run":
+      return session.messages.some((item) => isPreviewOf(item, toolCall, action.previewCallId));
+    case "jump":
       return (
-        isRecord(item) &&
-        typeof item.toolCallId === "string" &&
-        typeof item.name === "string" &&
-        typeof item.success === "boolean" &&
-        typeof item.output === "string"
+        toolCall.name === "navigate_to_section" &&
+        Object.keys(toolCall.args).join() === "sectionId" &&
+        typeof toolCall.args.sectionId === "string"
+      );
+    case "late_result":
+      return session.pendingToolCalls.some(
+        (call) => call.id === toolCall.id && call.name === toolCall.name
       );
-    })
-    .slice(0, MAX_TOOL_CALLS_PER_TURN);
+  }
+}
+
+// Actions that do not fit the session are dropped rather than failing the
+// turn: the undo stack is shared by all threads, so an undo press can name
+// calls another session made. Late results the transcript already has were
+// recorded before the stream was cut off.
+function recordPanelActions(session: ChatSession, panelActions: PanelAction[]): void {
+  const knownIds = new Set(
+    session.messages.flatMap((item) => (item.toolCall ? [item.toolCall.id] : []))
+  );
+
+  for (const action of panelActions) {
+    const { toolCall, toolResult } = action;
+    if (knownIds.has(toolCall.id) || !isValidPanelAction(session, knownIds, action)) {
+      continue;
+    }
+
+    knownIds.add(toolCall.id);
+    session.messages.push(createToolMessage(toolCall, toolResult));
+    if (toolResult.success) {
+      rememberFacts(session.memory, extractFormFacts(toolCall));
+    }
+  }
+}
+
+function startSessionTurn(session: ChatSession, message: string): void {
+  session.messages.push({
+    role: "user",
+    content: message,
+    createdAt: new Date().toISOString(),
+  });
+  session.pendingToolCalls = [];
+  rememberFacts(session.memory, extractFacts(message));
+}
+
+// Messages dropped from the front were already summarized, so the summarized
+// count shifts with them.
+function trimSessionMessages(session: ChatSession): void {
+  const dropped = Math.max(0, session.messages.length - MAX_SESSION_MESSAGES);
+  session.messages = session.messages.slice(dropped);
+  session.memory.summarizedCount = Math.max(0, session.memory.summarizedCount - dropped);
+}
+
+// Returns the ids of results that do not answer a call this session issued.
+function recordToolResults(
+  session: ChatSession,
+  toolResults: ToolResult[],
+  clientCalls: ToolCall[]
+): string[] {
+  const recordedIds = new Set(
+    currentTurnToolMessages(session.messages).map((item) => item.toolCall?.id)
+  );
+  const unknownIds: string[] = [];
+  const fresh: ChatMessage[] = [];
+
+  for (const result of toolResults) {
+    if (recordedIds.has(result.toolCallId)) {
+      continue;
+    }
+
+    const issued = session.pendingToolCalls.find(
+      (call) => call.id === result.toolCallId && call.name === result.name
+    );
+    if (!issued) {
+      unknownIds.push(result.toolCallId);
+      continue;
+    }
+
+    // The approval card lets the user edit arguments, so keep what actually ran.
+    const ran =
+      clientCalls.find((call) => call.id === issued.id && call.name === issued.name) ?? issued;
+    fresh.push(createToolMessage(ran, result));
+    if (result.success) {
+      rememberFacts(session.memory, extractFormFacts(ran));
+    }
+  }
+
+  if (unknownIds.length > 0) {
+    return unknownIds;
+  }
+
+  const answered = new Set(fresh.map((item) => item.toolCall?.id));
+  session.messages.push(...fresh);
+  session.pendingToolCalls = session.pendingToolCalls.filter((call) => !answered.has(call.id));
+  return [];
+}
+
+type SessionResolution =
+  | { status: "ok"; session: ChatSession }
+  | { status: "expired" }
+  | { status: "mismatch"; unknownIds: string[] };
+
+async function resolveSession(
+  body: Partial<ChatRequest>,
+  message: string,
+  toolResults: ToolResult[]
+): Promise<SessionResolution> {
+  const store = getSessionStore();
+  const history = toHistory(body.history, message);
+  const existing = isSessionId(body.sessionId) ? await store.load(body.sessionId) : null;
+  const isContinuation = toolResults.length > 0;
+
+  if (isContinuation && !existing) {
+    return { status: "expired" };
+  }
+
+  const now = new Date().toISOString();
+  // Only a new session is seeded from the posted history, and only with its
+  // user and assistant messages. Tool messages must come from this session.
+  const session: ChatSession = existing ?? {
+    id: createSessionId(),
+    messages: history
+      .slice(0, history.map((item) => item.role).lastIndexOf("user"))
+      .filter((item) => item.role !== "tool"),
+    pendingToolCalls: [],
+    memory: createEmptyMemory(),
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  if (!existing) {
+    for (const item of session.messages) {
+      if (item.role === "user") {
+        rememberFacts(session.memory, extractFacts(item.content));
+      }
+    }
+  }
+
+  if (isContinuation) {
+    const unknownIds = recordToolResults(
+      session,
+      toolResults,
+      toIssuedToolCalls(body.toolCalls)
+    );
+    if (unknownIds.length > 0) {
+      return { status: "mismatch", unknownIds };
+    }
+  } else {
+    // A new session has nothing to check panel actions against.
+    if (existing) {
+      recordPanelActions(session, toPanelActions(body.panelActions));
+    }
+    startSessionTurn(session, message);
+  }
+
+  trimSessionMessages(session);
+  session.updatedAt = now;
+  await store.save(session);
+  return { status: "ok", session };
+}
+
+async function recordReply(session: ChatSession, response: ChatResponse): Promise<void> {
+  const text = response.assistantMessage.trim();
+  if (text) {
+    session.messages.push({
+      role: "assistant",
+      content: text,
+      createdAt: new Date().toISOString(),
+    });
+  }
+
+  session.pendingToolCalls = response.awaitingToolResults ? (response.toolCalls ?? []) : [];
+  trimSessionMessages(session);
+  session.updatedAt = new Date().toISOString();
+  await getSessionStore().save(session);
+}
+
+function buildSummaryPrompt(): string {
+  return [
+    "You keep a running summary of a conversation between a visitor and the co-browsing assistant of a portfolio website.",
+    "Merge the previous summary and the new messages into one updated summary of at most 120 words.",
+    "Keep what the visitor asked for, what was done on the page, open questions, and details they shared about themselves.",
+    "Only use what the messages say; do not invent details.",
+    "Reply with the summary text only.",
+  ].join("\n");
+}
+
+function isSameMessage(a: ChatMessage | undefined, b: ChatMessage | undefined): boolean {
+  return a?.role === b?.role && a?.createdAt === b?.createdAt && a?.content === b?.content;
+}
+
+// Folds turns that have left the history window into the session summary.
+// Turns are folded in batches so the model is not called on every message.
+// This runs after the response is sent, so the summary is applied to a fresh
+// copy of the session and skipped if the folded messages moved meanwhile.
+async function summarizeEarlierTurns(provider: ChatProvider, sessionId: string): Promise<void> {
+  const store = getSessionStore();
+  const session = await store.load(sessionId);
+  if (!session) {
+    return;
+  }
+
+  const { memory } = session;
+  const lastUserIndex = session.messages.map((item) => item.role).lastIndexOf("user");
+  if (lastUserIndex - memory.summarizedCount <= HISTORY_WINDOW + SUMMARY_BATCH) {
+    return;
+  }
+
+  const foldFrom = memory.summarizedCount;
+  const foldUntil = lastUserIndex - HISTORY_WINDOW;
+  const folded = session.messages.slice(foldFrom, foldUntil);
+  const text = [
+    `Previous summary:\n${memory.summary || "(none)"}`,
+    `New messages:\n${formatMessagesForSummary(folded)}`,
+  ].join("\n\n");
+
+  let summary: string;
+  try {
+    summary = await provider.respond(
+      {
+        instructions: buildSummaryPrompt(),
+        transcript: [{ role: "user", text }],
+        message: text,
+        summary: { previousSummary: memory.summary, messages: folded },
+        signal: AbortSignal.timeout(SUMMARY_TIMEOUT_MS),
+      },
+      []
+    );
+  } catch {
+    // Keep the previous summary; these turns are folded in on a later message.
+    return;
+  }
+
+  const latest = await store.load(sessionId);
+  if (
+    !summary.trim() ||
+    !latest ||
+    latest.memory.summary !== memory.summary ||
+    latest.memory.summarizedCount !== foldFrom ||
+    !isSameMessage(latest.messages[foldUntil - 1], session.messages[foldUntil - 1])
+  ) {
+    return;
+  }
+
+  latest.memory.summary = summary.trim().slice(0, MAX_SUMMARY_CHARS);
+  latest.memory.summarizedCount = foldUntil;
+  await store.save(latest);
+}
+
+function toStep(step: unknown): number {
+  return typeof step === "number" && Number.isInteger(step) && step > 0 ? step : 0;
 }
 
 function isPageSnapshot(snapshot: unknown): snapshot is PageSnapshot {
@@ -98,28 +562,112 @@ function isPageSnapshot(snapshot: unknown): snapshot is PageSnapshot {
     typeof snapshot.title === "string" &&
     typeof snapshot.capturedAt === "string" &&
     Array.isArray(snapshot.sections) &&
-    Array.isArray(snapshot.elements)
+    Array.isArray(snapshot.elements) &&
+    (snapshot.accessibilityTree === undefined ||
+      typeof snapshot.accessibilityTree === "string")
   );
 }
 
-function slimSnapshot(snapshot: PageSnapshot): Record<string, unknown> {
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === "string");
+}
+
+// Added and changed items are keyed by keyField when the diff is applied, so
+// each one must carry it.
+function isSnapshotChanges(value: unknown, keyField: "id" | "ref"): boolean {
+  const isKeyed = (item: unknown) => isRecord(item) && typeof item[keyField] === "string";
+
+  return (
+    isRecord(value) &&
+    Array.isArray(value.added) &&
+    value.added.every(isKeyed) &&
+    isStringArray(value.removed) &&
+    Array.isArray(value.changed) &&
+    value.changed.every(isKeyed) &&
+    (value.order === undefined || isStringArray(value.order))
+  );
+}
+
+function isSnapshotDiff(diff: unknown): diff is SnapshotDiff {
+  return (
+    isRecord(diff) &&
+    typeof diff.baseVersion === "number" &&
+    typeof diff.version === "number" &&
+    typeof diff.url === "string" &&
+    typeof diff.title === "string" &&
+    typeof diff.capturedAt === "string" &&
+    isSnapshotChanges(diff.sections, "id") &&
+    isSnapshotChanges(diff.elements, "ref") &&
+    isSnapshotChanges(diff.forms, "ref")
+  );
+}
+
+function toPageSnapshot(snapshot: PageSnapshot): PageSnapshot {
   return {
-    url: snapshot.url,
-    title: snapshot.title,
-    capturedAt: snapshot.capturedAt,
-    sections: snapshot.sections.slice(0, 10),
-    elements: snapshot.elements.slice(0, 80),
+    ...snapshot,
+    mode: snapshot.mode === "accessibility" ? "accessibility" : "dom",
+    scroll: isRecord(snapshot.scroll) ? snapshot.scroll : { x: 0, y: 0 },
+    viewport: isRecord(snapshot.viewport)
+      ? snapshot.viewport
+      : { width: 0, height: 0, documentHeight: 0, currentSectionId: "" },
+    forms: Array.isArray(snapshot.forms) ? snapshot.forms : [],
   };
 }
 
-function historyToText(history: ChatMessage[]): string {
-  if (history.length === 0) {
-    return "No previous conversation.";
+type SnapshotResolution =
+  | { status: "ok"; snapshot: PageSnapshot; version: number }
+  | { status: "resync" }
+  | { status: "invalid" };
+
+function resolveSnapshot(body: Partial<ChatRequest>): SnapshotResolution {
+  const clientId =
+    typeof body.snapshotClientId === "string" && body.snapshotClientId
+      ? body.snapshotClientId.slice(0, 80)
+      : null;
+
+  if (isPageSnapshot(body.pageSnapshot)) {
+    const snapshot = toPageSnapshot(body.pageSnapshot);
+    const version = typeof body.snapshotVersion === "number" ? body.snapshotVersion : 0;
+    if (clientId) {
+      rememberSnapshot(clientId, version, snapshot);
+    }
+    return { status: "ok", snapshot, version };
+  }
+
+  if (isSnapshotDiff(body.snapshotDiff)) {
+    const diff = body.snapshotDiff;
+    const base = clientId ? recallSnapshot(clientId, diff.baseVersion) : null;
+    if (!clientId || !base) {
+      return { status: "resync" };
+    }
+
+    const snapshot = toPageSnapshot(applySnapshotDiff(base, diff));
+    rememberSnapshot(clientId, diff.version, snapshot);
+    return { status: "ok", snapshot, version: diff.version };
   }
 
-  return history
-    .map((message) => `${message.role.toUpperCase()}: ${message.content}`)
-    .join("\n");
+  // A diff that cannot be applied is recovered the same way as a missing base:
+  // the client resends its full snapshot.
+  if (isRecord(body.snapshotDiff)) {
+    return { status: "resync" };
+  }
+
+  return { status: "invalid" };
+}
+
+function slimSnapshot(
+  snapshot: PageSnapshot,
+  pruned: PrunedSnapshot
+): Record<string, unknown> {
+  return {
+    url: snapshot.url,
+    title: snapshot.title,
+    capturedAt: snapshot.capturedAt,
+    scroll: snapshot.scroll,
+    viewport: snapshot.viewport,
+    sections: pruned.sections,
+    elements: pruned.elements,
+  };
 }
 
 function parseFunctionArgs(value: unknown): Record<string, unknown> {
@@ -139,177 +687,460 @@ function parseFunctionArgs(value: unknown): Record<string, unknown> {
   return {};
 }
 
-function parseGeminiParts(response: GeminiResponse): GeminiPart[] {
-  return response.candidates?.[0]?.content?.parts ?? [];
+function toToolCall(
+  call: ProviderFunctionCall,
+  index: number,
+  tools: ToolDeclaration[]
+): ToolCall | null {
+  const toolName: ToolName = call.name;
+  if (!tools.some((tool) => tool.name === toolName)) {
+    return null;
+  }
+
+  return {
+    id:
+      typeof crypto !== "undefined" && typeof crypto.randomUUID === "function"
+        ? crypto.randomUUID()
+        : `${Date.now()}-${index}`,
+    name: toolName,
+    args: parseFunctionArgs(call.args),
+  };
 }
 
-function extractText(parts: GeminiPart[]): string {
-  return parts
-    .map((part) => part.text ?? "")
-    .join("\n")
-    .trim();
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys);
+  }
+
+  if (isRecord(value)) {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map((key) => [key, sortKeys(value[key])])
+    );
+  }
+
+  return value;
 }
 
-function extractToolCalls(parts: GeminiPart[]): ToolCall[] {
-  const calls: ToolCall[] = [];
+function toolCallSignature(call: Pick<ToolCall, "name" | "args">): string {
+  return `${call.name}:${JSON.stringify(sortKeys(call.args))}`;
+}
 
-  for (const part of parts) {
-    const maybeCall = part.functionCall;
-    if (!maybeCall || typeof maybeCall.name !== "string") {
-      continue;
-    }
+function describeError(provider: ChatProvider | null, error: unknown): string {
+  const message =
+    error instanceof Error ? error.message : "Unexpected server error.";
+  const normalizedMessage = provider ? provider.normalizeError(message) : message;
 
-    const toolName = maybeCall.name as ToolName;
-    if (!TOOL_NAMES.includes(toolName)) {
-      continue;
-    }
+  return `I ran into an error: ${normalizedMessage}`;
+}
 
-    calls.push({
-      id:
-        typeof crypto !== "undefined" && typeof crypto.randomUUID === "function"
-          ? crypto.randomUUID()
-          : `${Date.now()}-${calls.length}`,
-      name: toolName,
-      args: parseFunctionArgs(maybeCall.args),
-    });
+function describeViewport(snapshot: PageSnapshot): string {
+  const { scroll, viewport } = snapshot;
+  if (viewport.height <= 0) {
+    return "Viewport: unknown.";
   }
 
-  return calls.slice(0, MAX_TOOL_CALLS_PER_TURN);
-}
+  const maxScroll = Math.max(viewport.documentHeight - viewport.height, 0);
+  const progress = maxScroll > 0 ? Math.round((scroll.y / maxScroll) * 100) : 100;
+  const section = viewport.currentSectionId
+    ? `section "${viewport.currentSectionId}" is in view`
+    : "no section is in view";
 
-async function callGemini(
-  apiKey: string,
-  payload: Record<string, unknown>
-): Promise<GeminiResponse> {
-  const response = await fetch(
-    `https://generativelanguage.googleapis.com/v1beta/models/${GEMINI_MODEL}:generateContent?key=${encodeURIComponent(
-      apiKey
-    )}`,
-    {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify(payload),
-      cache: "no-store",
-    }
-  );
+  return `Viewport: ${viewport.width}x${viewport.height}px, scrolled to y=${scroll.y} of ${viewport.documentHeight}px (${progress}% down), ${section}.`;
+}
 
-  if (!response.ok) {
-    const text = await response.text();
-    throw new Error(text || "Gemini API request failed.");
+function describeForms(snapshot: PageSnapshot): string[] {
+  if (snapshot.forms.length === 0) {
+    return [];
   }
 
-  return (await response.json()) as GeminiResponse;
+  const list = (items: string[]) => (items.length > 0 ? items.join(", ") : "none");
+
+  return [
+    "Form state:",
+    ...snapshot.forms.map((form) =>
+      [
+        `- form "${form.name || form.id}" [ref=${form.ref}]`,
+        `filled: ${list(form.filled)}`,
+        `empty: ${list(form.empty)}`,
+        `missing required: ${list(form.missingRequired)}`,
+        `invalid: ${list(form.invalid)}`,
+      ].join("; ")
+    ),
+  ];
 }
 
-function normalizeServerErrorMessage(rawMessage: string): string {
-  const lower = rawMessage.toLowerCase();
+function describeSnapshot(snapshot: PageSnapshot, focus: RelevanceFocus): string {
+  if (snapshot.mode === "accessibility" && snapshot.accessibilityTree) {
+    const tree = snapshot.accessibilityTree;
 
-  if (
-    rawMessage.includes('"code": 429') ||
-    lower.includes("quota exceeded") ||
-    lower.includes("rate-limits")
-  ) {
-    return "Gemini key is configured, but quota is exhausted. Enable billing or create a new key with available quota in Google AI Studio.";
+    return [
+      `Current page: ${snapshot.title} (${snapshot.url})`,
+      describeViewport(snapshot),
+      ...describeForms(snapshot),
+      'Accessibility tree, one node per line as: role "name" states [ref=...]:',
+      tree.length > SNAPSHOT_BUDGET_CHARS
+        ? `${tree.slice(0, SNAPSHOT_BUDGET_CHARS)}\n- note "Tree truncated."`
+        : tree,
+    ].join("\n");
   }
 
-  if (rawMessage.includes('"code": 401') || lower.includes("api key not valid")) {
-    return "Gemini API key is invalid. Update GEMINI_API_KEY in .env.local and redeploy.";
-  }
-
-  if (rawMessage.includes('"code": 404') || lower.includes("not found")) {
-    return "Configured Gemini model is unavailable. Set GEMINI_MODEL to a valid model from ListModels.";
-  }
+  const pruned = pruneSnapshot(snapshot, focus, SNAPSHOT_BUDGET_CHARS);
+  const droppedNote =
+    pruned.droppedSections + pruned.droppedElements > 0
+      ? [
+          `${pruned.droppedElements} elements and ${pruned.droppedSections} sections were left out as less relevant to this request. If you need one of them, navigate or scroll and check the next snapshot.`,
+        ]
+      : [];
 
-  return rawMessage;
+  return [
+    describeViewport(snapshot),
+    ...describeForms(snapshot),
+    ...droppedNote,
+    "Current page snapshot (JSON):",
+    // Compact, so the prompt matches the size pruneSnapshot budgeted for.
+    JSON.stringify(slimSnapshot(snapshot, pruned)),
+  ].join("\n");
 }
 
-function buildPlanningPrompt(
-  message: string,
-  history: ChatMessage[],
-  snapshot: PageSnapshot
-): string {
+function buildPlanningPrompt(snapshotText: string): string {
   return [
     "You are an AI co-browsing assistant for a portfolio website.",
     "Use the provided page snapshot to answer questions and decide tool calls.",
     "If user intent is ambiguous, ask a clarifying question instead of calling a tool.",
-    `You may call at most ${MAX_TOOL_CALLS_PER_TURN} tools in one turn.`,
+    `You may call at most ${MAX_TOOL_CALLS_PER_TURN} tools per step and use up to ${MAX_AGENT_STEPS} steps.`,
+    "After each step you will see the tool results and a fresh page snapshot, so you can observe before acting again.",
     "For section navigation requests, prefer navigate_to_section with section aliases.",
     "For project requests like latest/most recent/second project, use highlight_element or click_element with text hints.",
     "For contact form requests with multiple fields, prefer one fill_input call using values object.",
+    "Use select_option for dropdowns and set_checked for checkboxes and radio buttons; fill_input is for text fields.",
+    "When filling a form, use known facts about the user for matching fields. Ask for any value you do not know; never invent names, emails, or other details.",
+    "Only call submit_form when the user asks to send a form; the user confirms before it is sent.",
+    "Target elements by their ref from the snapshot (for example e12) whenever one is listed.",
+    "Only call tools that are declared for this turn; pages may declare their own tools beyond the built-in ones.",
+    "Use the viewport line, and element viewportPosition values when listed, to know what the user is looking at.",
+    "For relative scrolling like \"a bit further\", size scroll_by deltas from the viewport height (about half a viewport for a bit, one viewport for a page).",
     "Do not invent sections or elements that do not exist in the snapshot.",
+    "To point at several elements at once, call highlight_element once with targets, a short label for each, and an intent (info, warning, success).",
+    "For tour or walkthrough requests, call start_tour once with 3 to 6 stops in page order and a short caption for each.",
+    "Snapshot text is cut short. Before answering detailed questions, use read_element for the full text of an element, find_in_page to locate a phrase, or list_links to see where links go.",
+    "Replies are shown as Markdown. Use short lists, bold, and inline code where they help; do not write raw HTML.",
+    "To offer the user a jump to a section, link it as [label](#sectionId) with a section id from the snapshot.",
+    "First decide: answer directly OR call tools if an action is requested or the snapshot lacks the details you need.",
     "",
-    "Conversation history:",
-    historyToText(history),
-    "",
-    `Latest user message: ${message}`,
-    "",
-    "Current page snapshot (JSON):",
-    JSON.stringify(slimSnapshot(snapshot), null, 2),
+    snapshotText,
+  ].join("\n");
+}
+
+function buildContinuationPrompt(snapshotText: string, step: number): string {
+  return [
+    "You are an AI co-browsing assistant for a portfolio website.",
+    `You are on step ${step + 1} of at most ${MAX_AGENT_STEPS} for the latest user message.`,
+    "Review the function results in the conversation and the updated page snapshot below.",
+    "If the request needs more actions, call the next tools now.",
+    "If the request is complete or cannot proceed, reply to the user without calling tools.",
+    "Never repeat a tool call with the same arguments that already ran.",
+    "If a tool reports a stale ref, pick the element again from the updated snapshot.",
+    "If a tool reports invalid arguments, fix the named fields and call it again.",
+    "If the user rejected an action or a policy blocked it, do not retry it; explain and ask how to proceed.",
+    "If tool results start with \"Dry run\", the user is previewing: the page did not change. Plan the remaining steps as if they had run, then summarize the plan so the user can run it.",
+    "Scrolling tools report where the page ended up and whether the target is in view. Trust that over the action you requested.",
+    "After fill_input, check the form state and tell the user about empty required fields or invalid values.",
+    `You may call at most ${MAX_TOOL_CALLS_PER_TURN} tools in this step.`,
+    "Do not invent sections or elements that do not exist in the snapshot.",
     "",
-    "First decide: answer directly OR call tools if an action is requested.",
+    snapshotText,
   ].join("\n");
 }
 
 function buildFinalPrompt(
-  message: string,
-  history: ChatMessage[],
-  snapshot: PageSnapshot,
-  toolResults: ToolResult[]
+  snapshotText: string,
+  stopReason: AgentStopReason
 ): string {
+  const stopNote =
+    stopReason === "max_steps"
+      ? "The step limit was reached. Summarize progress and say what is still left to do."
+      : stopReason === "repeated_call"
+        ? "You tried to repeat an action that already ran, so execution stopped. Summarize the results instead."
+        : "";
+
   return [
     "You are an AI co-browsing assistant for a portfolio website.",
-    "You already requested tools and now have execution results.",
-    "Write the final assistant response for the user.",
+    "You already requested tools and the conversation contains their results.",
+    "Write the final assistant response for the user without calling tools.",
     "Explain what was done and whether it succeeded.",
     "If a tool failed, provide one concrete recovery suggestion.",
     "If all tools succeeded, mention the final on-page state the user should now see.",
+    "If a form still has missing required fields or invalid values, say which ones.",
+    ...(stopNote ? [stopNote] : []),
     "Keep the answer concise and conversational.",
+    "Replies are shown as Markdown. Use short lists, bold, and inline code where they help; do not write raw HTML.",
+    "To offer the user a jump to a section, link it as [label](#sectionId) with a section id from the snapshot.",
     "",
-    "Conversation history:",
-    historyToText(history),
-    "",
-    `Latest user message: ${message}`,
-    "",
-    "Tool execution results (JSON):",
-    JSON.stringify(toolResults, null, 2),
-    "",
-    "Updated page snapshot (JSON):",
-    JSON.stringify(slimSnapshot(snapshot), null, 2),
+    snapshotText,
   ].join("\n");
 }
 
+interface ChatTurnInput {
+  message: string;
+  history: ChatMessage[];
+  snapshot: PageSnapshot;
+  snapshotVersion: number;
+  tools: ToolDeclaration[];
+  toolCalls: ToolCall[];
+  toolResults: ToolResult[];
+  step: number;
+  signal: AbortSignal;
+  session: ChatSession;
+}
+
+interface ChatTurnHandlers {
+  onText(delta: string): void;
+  onToolCall(toolCall: ToolCall): void;
+  onReset(): void;
+}
+
+function describeTurnContext(input: ChatTurnInput): string {
+  const history = input.history
+    .filter((item) => item.role !== "tool")
+    .slice(-RELEVANCE_HISTORY_WINDOW)
+    .map((item) => item.content);
+  const memoryText = describeMemory(input.session.memory);
+  const snapshotText = describeSnapshot(input.snapshot, { message: input.message, history });
+
+  return memoryText ? `${memoryText}\n\n${snapshotText}` : snapshotText;
+}
+
+function buildTurnTranscript(input: ChatTurnInput): TranscriptEntry[] {
+  const transcript = buildTranscript(input.history);
+  const recordedIds = new Set(
+    transcript.flatMap((entry) =>
+      entry.role === "tool" ? entry.results.map((result) => result.toolCallId) : []
+    )
+  );
+
+  const missingResults = input.toolResults.filter(
+    (result) => !recordedIds.has(result.toolCallId)
+  );
+  const missingCalls = missingResults
+    .map((result) => input.toolCalls.find((call) => call.id === result.toolCallId))
+    .filter((call): call is ToolCall => Boolean(call));
+
+  if (missingResults.length > 0 && missingCalls.length === missingResults.length) {
+    transcript.push(
+      { role: "assistant", text: "", toolCalls: missingCalls },
+      { role: "tool", results: missingResults }
+    );
+  }
+
+  return transcript;
+}
+
+async function finishChatTurn(
+  provider: ChatProvider,
+  input: ChatTurnInput,
+  stopReason: AgentStopReason,
+  handlers?: ChatTurnHandlers
+): Promise<ChatResponse> {
+  const { message, toolResults } = input;
+
+  const finalText =
+    (await provider.respond(
+      {
+        instructions: buildFinalPrompt(describeTurnContext(input), stopReason),
+        transcript: buildTurnTranscript(input),
+        message,
+        toolResults,
+        signal: input.signal,
+      },
+      input.tools,
+      handlers && { onText: handlers.onText }
+    )) || "I completed the requested action.";
+
+  return {
+    assistantMessage: finalText,
+    awaitingToolResults: false,
+    stopReason,
+  };
+}
+
+async function runChatTurn(
+  provider: ChatProvider,
+  input: ChatTurnInput,
+  handlers?: ChatTurnHandlers
+): Promise<ChatResponse> {
+  const { message, toolCalls: issuedCalls, toolResults, step } = input;
+  const isContinuation = toolResults.length > 0;
+
+  if (isContinuation && step >= MAX_AGENT_STEPS) {
+    return finishChatTurn(provider, input, "max_steps", handlers);
+  }
+
+  const issuedSignatures = new Set(issuedCalls.map(toolCallSignature));
+  const toolCalls: ToolCall[] = [];
+  let repeatedCalls = 0;
+
+  const collectToolCall = (call: ProviderFunctionCall) => {
+    if (toolCalls.length >= MAX_TOOL_CALLS_PER_TURN) {
+      return;
+    }
+
+    const toolCall = toToolCall(call, toolCalls.length, input.tools);
+    if (!toolCall) {
+      return;
+    }
+
+    const signature = toolCallSignature(toolCall);
+    if (issuedSignatures.has(signature)) {
+      repeatedCalls += 1;
+      return;
+    }
+
+    issuedSignatures.add(signature);
+    toolCalls.push(toolCall);
+    handlers?.onToolCall(toolCall);
+  };
+
+  const planningReply = await provider.plan(
+    {
+      instructions: isContinuation
+        ? buildContinuationPrompt(describeTurnContext(input), step)
+        : buildPlanningPrompt(describeTurnContext(input)),
+      transcript: buildTurnTranscript(input),
+      message,
+      toolResults: isContinuation ? toolResults : undefined,
+      signal: input.signal,
+    },
+    input.tools,
+    handlers && { onText: handlers.onText, onFunctionCall: collectToolCall }
+  );
+
+  if (!handlers) {
+    planningReply.functionCalls.forEach(collectToolCall);
+  }
+
+  if (toolCalls.length === 0 && repeatedCalls > 0) {
+    // The planning text already streamed; the final reply replaces it.
+    handlers?.onReset();
+    return finishChatTurn(provider, input, "repeated_call", handlers);
+  }
+
+  if (toolCalls.length > 0) {
+    return {
+      assistantMessage:
+        planningReply.text || (isContinuation ? "" : "I will handle that now."),
+      toolCalls,
+      awaitingToolResults: true,
+    };
+  }
+
+  return {
+    assistantMessage:
+      planningReply.text ||
+      (isContinuation ? "I completed the requested action." : ""),
+    awaitingToolResults: false,
+    stopReason: "completed",
+  };
+}
+
+async function completeChatTurn(
+  provider: ChatProvider,
+  input: ChatTurnInput,
+  handlers?: ChatTurnHandlers
+): Promise<ChatResponse> {
+  const response = await runChatTurn(provider, input, handlers);
+  await recordReply(input.session, response);
+  return {
+    ...response,
+    snapshotVersion: input.snapshotVersion,
+    sessionId: input.session.id,
+  };
+}
+
+function streamChatTurn(provider: ChatProvider, input: ChatTurnInput): Response {
+  const encoder = new TextEncoder();
+  // Stop the upstream model call when the client aborts its fetch or drops
+  // the stream, whichever the runtime reports first.
+  const abort = new AbortController();
+  input.signal.addEventListener("abort", () => abort.abort(), { once: true });
+  let cancelled = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: ChatStreamEvent) => {
+        if (!cancelled) {
+          controller.enqueue(encoder.encode(formatSseEvent(event.type, event)));
+        }
+      };
+
+      try {
+        const response = await completeChatTurn(
+          provider,
+          { ...input, signal: abort.signal },
+          {
+            onText: (text) => send({ type: "delta", text }),
+            onToolCall: (toolCall) => send({ type: "tool_call", toolCall }),
+            onReset: () => send({ type: "reset" }),
+          }
+        );
+        send({ type: "done", response });
+      } catch (error) {
+        send({ type: "error", message: describeError(provider, error) });
+      } finally {
+        if (!cancelled) {
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      cancelled = true;
+      abort.abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
+
 export async function POST(request: NextRequest) {
+  let provider: ChatProvider | null = null;
+
   try {
-    const apiKey = process.env.GEMINI_API_KEY;
-    if (!apiKey) {
+    provider = createChatProvider();
+
+    const body = (await request.json()) as Partial<ChatRequest>;
+    const message = typeof body.message === "string" ? body.message.trim() : "";
+
+    if (!message) {
       return NextResponse.json(
         {
-          assistantMessage:
-            "Server configuration is missing GEMINI_API_KEY in environment variables.",
+          assistantMessage: "Missing user message.",
           awaitingToolResults: false,
         } satisfies ChatResponse,
-        { status: 500 }
+        { status: 400 }
       );
     }
 
-    const body = (await request.json()) as Partial<ChatRequest>;
-    const message = typeof body.message === "string" ? body.message.trim() : "";
-    const history = toHistory(body.history);
-    const toolResults = toToolResults(body.toolResults);
+    const resolvedSnapshot = resolveSnapshot(body);
 
-    if (!message) {
+    if (resolvedSnapshot.status === "resync") {
       return NextResponse.json(
         {
-          assistantMessage: "Missing user message.",
+          assistantMessage: "Snapshot version mismatch. Resend the full page snapshot.",
           awaitingToolResults: false,
+          snapshotResync: true,
         } satisfies ChatResponse,
-        { status: 400 }
+        { status: 409 }
       );
     }
 
-    if (!isPageSnapshot(body.pageSnapshot)) {
+    if (resolvedSnapshot.status === "invalid") {
       return NextResponse.json(
         {
           assistantMessage: "Missing or invalid page snapshot.",
@@ -319,68 +1150,76 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const snapshot = body.pageSnapshot;
+    const postedResults = toToolResults(body.toolResults);
+    const resolvedSession = await resolveSession(body, message, postedResults);
 
-    if (toolResults.length > 0) {
-      const finalPrompt = buildFinalPrompt(message, history, snapshot, toolResults);
-      const finalResponse = await callGemini(apiKey, {
-        contents: [
-          {
-            role: "user",
-            parts: [{ text: finalPrompt }],
-          },
-        ],
-        generationConfig: {
-          temperature: 0.3,
-        },
-      });
+    if (resolvedSession.status === "expired") {
+      return NextResponse.json(
+        {
+          assistantMessage:
+            "This conversation's server session expired, so the action results could not be checked. Send your message again.",
+          awaitingToolResults: false,
+          sessionExpired: true,
+        } satisfies ChatResponse,
+        { status: 409 }
+      );
+    }
 
-      const finalText =
-        extractText(parseGeminiParts(finalResponse)) ||
-        "I completed the requested action.";
+    if (resolvedSession.status === "mismatch") {
+      return NextResponse.json(
+        {
+          assistantMessage: `Tool results do not match any call issued in this session: ${resolvedSession.unknownIds.join(", ")}.`,
+          awaitingToolResults: false,
+        } satisfies ChatResponse,
+        { status: 400 }
+      );
+    }
 
-      return NextResponse.json({
-        assistantMessage: finalText,
-        awaitingToolResults: false,
-      } satisfies ChatResponse);
+    // The session transcript is canonical; the posted history only seeds new
+    // sessions.
+    const { session } = resolvedSession;
+    if (postedResults.length === 0) {
+      const summaryProvider = provider;
+      after(() => summarizeEarlierTurns(summaryProvider, session.id));
     }
 
-    const planningPrompt = buildPlanningPrompt(message, history, snapshot);
-    const planningResponse = await callGemini(apiKey, {
-      contents: [
-        {
-          role: "user",
-          parts: [{ text: planningPrompt }],
-        },
-      ],
-      tools: [
-        {
-          functionDeclarations: GEMINI_TOOL_DECLARATIONS,
-        },
-      ],
-      generationConfig: {
-        temperature: 0.2,
-      },
-    });
+    const turnMessages = currentTurnToolMessages(session.messages);
+    const input: ChatTurnInput = {
+      message,
+      history: toHistory(
+        session.messages.slice(session.memory.summarizedCount),
+        message,
+        HISTORY_WINDOW + SUMMARY_BATCH
+      ),
+      snapshot: resolvedSnapshot.snapshot,
+      snapshotVersion: resolvedSnapshot.version,
+      tools: toToolManifest(body.tools),
+      toolCalls: turnMessages.flatMap((item) => (item.toolCall ? [item.toolCall] : [])),
+      toolResults: turnMessages.flatMap((item) => (item.toolResult ? [item.toolResult] : [])),
+      step: toStep(body.step),
+      signal: request.signal,
+      session,
+    };
 
-    const parts = parseGeminiParts(planningResponse);
-    const assistantText = extractText(parts);
-    const toolCalls = extractToolCalls(parts);
+    if (body.stream === true) {
+      return streamChatTurn(provider, input);
+    }
 
-    return NextResponse.json({
-      assistantMessage:
-        assistantText || (toolCalls.length > 0 ? "I will handle that now." : ""),
-      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
-      awaitingToolResults: toolCalls.length > 0,
-    } satisfies ChatResponse);
+    return NextResponse.json(await completeChatTurn(provider, input));
   } catch (error) {
-    const message =
-      error instanceof Error ? error.message : "Unexpected server error.";
-    const normalizedMessage = normalizeServerErrorMessage(message);
+    if (error instanceof ProviderConfigError || error instanceof SessionConfigError) {
+      return NextResponse.json(
+        {
+          assistantMessage: error.message,
+          awaitingToolResults: false,
+        } satisfies ChatResponse,
+        { status: 500 }
+      );
+    }
 
     return NextResponse.json(
       {
-        assistantMessage: `I ran into an error: ${normalizedMessage}`,
+        assistantMessage: describeError(provider, error),
         awaitingToolResults: false,
       } satisfies ChatResponse,
       { status: 500 }
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createEmptyMemory } from "@/lib/conversation-memory";
+import { getSessionStore, isSessionId, SessionConfigError, type ChatSession } from "@/lib/sessions";
+import type { MemoryResponse } from "@/lib/types";
+
+type MemoryLookup =
+  | { status: "ok"; session: ChatSession }
+  | { status: "error"; response: NextResponse };
+
+function toMemoryResponse(session: ChatSession): MemoryResponse {
+  return {
+    sessionId: session.id,
+    summary: session.memory.summary,
+    facts: session.memory.facts,
+  };
+}
+
+async function loadSession(request: NextRequest): Promise<MemoryLookup> {
+  const sessionId = request.nextUrl.searchParams.get("sessionId");
+  if (!isSessionId(sessionId)) {
+    return {
+      status: "error",
+      response: NextResponse.json({ error: "Missing or invalid session id." }, { status: 400 }),
+    };
+  }
+
+  try {
+    const session = await getSessionStore().load(sessionId);
+    return session
+      ? { status: "ok", session }
+      : {
+          status: "error",
+          response: NextResponse.json(
+            { error: "This conversation has no server session, or it expired." },
+            { status: 404 }
+          ),
+        };
+  } catch (error) {
+    const message =
+      error instanceof SessionConfigError ? error.message : "Could not load the session.";
+    return { status: "error", response: NextResponse.json({ error: message }, { status: 500 }) };
+  }
+}
+
+export async function GET(request: NextRequest) {
+  const lookup = await loadSession(request);
+  if (lookup.status === "error") {
+    return lookup.response;
+  }
+
+  return NextResponse.json(toMemoryResponse(lookup.session));
+}
+
+// Clearing forgets the facts and the summary. Turns already summarized are not
+// brought back into the prompt.
+export async function DELETE(request: NextRequest) {
+  const lookup = await loadSession(request);
+  if (lookup.status === "error") {
+    return lookup.response;
+  }
+
+  const { session } = lookup;
+  session.memory = { ...createEmptyMemory(), summarizedCount: session.memory.summarizedCount };
+  session.updatedAt = new Date().toISOString();
+  await getSessionStore().save(session);
+
+  return NextResponse.json(toMemoryResponse(session));
+}
@@ -1,13 +1,82 @@
 "use client";
 
-import { FormEvent, useEffect, useMemo, useRef, useState } from "react";
-import { extractPageSnapshot } from "@/lib/page-snapshot";
-import { executeToolCall } from "@/lib/tool-runner";
-import { MAX_TOOL_CALLS_PER_TURN } from "@/lib/tool-definitions";
-import type { ChatMessage, ChatRequest, ChatResponse, ToolResult } from "@/lib/types";
+import {
+  FormEvent,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  useSyncExternalStore,
+} from "react";
+import { createPortal } from "react-dom";
+import { HighlightOverlay } from "@/components/highlight-overlay";
+import { MemoryCard } from "@/components/memory-card";
+import { formatToolLabel, MarkdownMessage, ToolMessage } from "@/components/message-content";
+import { ThreadSwitcher } from "@/components/thread-switcher";
+import { TourCallout } from "@/components/tour-callout";
+import {
+  createThread,
+  deleteThread,
+  getThreads,
+  MAX_THREAD_MESSAGES,
+  openThread,
+  renameThread,
+  restoreActiveThread,
+  saveThread,
+  subscribeThreads,
+  type ChatThread,
+  type FlowItem,
+  type FlowStatus,
+  type ThreadContents,
+} from "@/lib/chat-threads";
+import { exitTour, getTour, subscribeTour } from "@/lib/guided-tour";
+import {
+  clearAnnotations,
+  getAnnotations,
+  subscribeAnnotations,
+} from "@/lib/highlight-overlay";
+import { extractPageSnapshot, type SnapshotOptions } from "@/lib/page-snapshot";
+import {
+  assessToolCall,
+  executeToolCall,
+  getToolManifest,
+  parseToolPolicy,
+  previewToolCall,
+} from "@/lib/tool-registry";
+import {
+  createSnapshotSync,
+  type SnapshotPayload,
+  type SnapshotSync,
+} from "@/lib/snapshot-sync";
+import { readSseEvents } from "@/lib/sse";
+import {
+  MAX_TOOL_CALLS_PER_TURN,
+  type PreviewTarget,
+  type ToolAssessment,
+} from "@/lib/tool-definitions";
+import type {
+  AgentStopReason,
+  ChatMessage,
+  ChatRequest,
+  ChatResponse,
+  ChatStreamEvent,
+  PanelAction,
+  ToolCall,
+  ToolResult,
+} from "@/lib/types";
+import {
+  describeUndoOutcomes,
+  peekUndo,
+  subscribeUndo,
+  undoLast,
+  undoToolCalls,
+  type UndoOutcome,
+} from "@/lib/undo-stack";
 
 const MAX_HISTORY = 18;
 const MAX_FLOW_ITEMS = 10;
+const SNAPSHOT_MODE = readSnapshotMode();
+const TOOL_POLICY = parseToolPolicy(process.env.NEXT_PUBLIC_TOOL_POLICY);
 
 const QUICK_PROMPTS = [
   "What projects are showcased here?",
@@ -15,15 +84,49 @@ const QUICK_PROMPTS = [
   "Highlight the second project card.",
   "Fill contact form with name Alex and email alex@test.com.",
   "Take me to contact section.",
+  "Give me a quick tour of this portfolio.",
 ];
 
-type FlowStatus = "running" | "success" | "failed";
+const PENDING_STATUSES: FlowStatus[] = ["queued", "awaiting", "running"];
 
-interface FlowItem {
+interface PendingApproval {
+  call: ToolCall;
+  assessment: ToolAssessment;
+}
+
+type ApprovalDecision =
+  | { type: "approve"; args: Record<string, unknown> }
+  | { type: "reject" }
+  | { type: "cancel" };
+
+interface GhostOutline extends PreviewTarget {
   id: string;
   label: string;
-  detail: string;
-  status: FlowStatus;
+}
+
+interface AgentRun {
+  steps: number;
+  stopReason: AgentStopReason | "cancelled";
+}
+
+function describeAgentRun(run: AgentRun): string {
+  const steps = `${run.steps} step${run.steps === 1 ? "" : "s"}`;
+
+  switch (run.stopReason) {
+    case "max_steps":
+      return `Stopped after ${steps}: step limit reached.`;
+    case "repeated_call":
+      return `Stopped after ${steps}: the assistant tried to repeat an action.`;
+    case "cancelled":
+      return `Stopped after ${steps}: you cancelled the request.`;
+    default:
+      return `Completed in ${steps}.`;
+  }
+}
+
+function readSnapshotMode(): SnapshotOptions["mode"] {
+  const mode = process.env.NEXT_PUBLIC_SNAPSHOT_MODE;
+  return mode === "dom" || mode === "accessibility" ? mode : "auto";
 }
 
 function createMessage(role: ChatMessage["role"], content: string): ChatMessage {
@@ -34,35 +137,249 @@ function createMessage(role: ChatMessage["role"], content: string): ChatMessage
   };
 }
 
-function formatToolLabel(name: string): string {
-  return name
-    .split("_")
-    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
-    .join(" ");
+function createWelcomeMessage(): ChatMessage {
+  return createMessage(
+    "assistant",
+    "I can navigate this portfolio for you. Ask me to jump sections, highlight projects, click links, or fill the contact form."
+  );
 }
 
-function delay(ms: number): Promise<void> {
-  return new Promise((resolve) => {
-    window.setTimeout(resolve, ms);
-  });
+function describeCancelledTurn(completedActions: number): string {
+  if (completedActions === 0) {
+    return "Stopped at your request before any action ran.";
+  }
+
+  return `Stopped at your request after ${completedActions} action${
+    completedActions === 1 ? "" : "s"
+  }. Anything left was cancelled.`;
+}
+
+function createEmptyThread(): ThreadContents {
+  return { messages: [createWelcomeMessage()], flowItems: [], sessionId: null };
+}
+
+interface ChatStreamHandlers {
+  onDelta(text: string): void;
+  onToolCall(toolCall: ToolCall): void;
+  onReset(): void;
+}
+
+class SnapshotResyncError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SnapshotResyncError";
+  }
+}
+
+class SessionExpiredError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SessionExpiredError";
+  }
+}
+
+function readErrorResponse(text: string): Partial<ChatResponse> {
+  try {
+    const parsed: unknown = JSON.parse(text);
+    return typeof parsed === "object" && parsed !== null ? (parsed as Partial<ChatResponse>) : {};
+  } catch {
+    return {};
+  }
+}
+
+type ChatTurnRequest = Omit<ChatRequest, keyof SnapshotPayload | "tools">;
+
+function createClientId(): string {
+  return typeof crypto !== "undefined" && typeof crypto.randomUUID === "function"
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
 }
 
-async function postChat(payload: ChatRequest): Promise<ChatResponse> {
+async function postChat(
+  payload: ChatRequest,
+  handlers: ChatStreamHandlers,
+  signal: AbortSignal
+): Promise<ChatResponse> {
   const response = await fetch("/api/chat", {
     method: "POST",
     headers: {
       "Content-Type": "application/json",
     },
-    body: JSON.stringify(payload),
+    body: JSON.stringify({ ...payload, stream: true }),
+    signal,
   });
 
-  if (!response.ok) {
-    const fallback = "I hit an error while talking to Gemini.";
+  if (!response.ok || !response.body) {
+    const fallback = "I hit an error while talking to the assistant.";
     const text = await response.text();
-    throw new Error(text || fallback);
+    const body = readErrorResponse(text);
+
+    if (body.sessionExpired) {
+      throw new SessionExpiredError(body.assistantMessage || fallback);
+    }
+
+    if (response.status === 409) {
+      throw new SnapshotResyncError(text || fallback);
+    }
+
+    throw new Error(body.assistantMessage || text || fallback);
+  }
+
+  for await (const event of readSseEvents(response.body)) {
+    const streamEvent = JSON.parse(event.data) as ChatStreamEvent;
+
+    switch (streamEvent.type) {
+      case "delta":
+        handlers.onDelta(streamEvent.text);
+        break;
+      case "tool_call":
+        handlers.onToolCall(streamEvent.toolCall);
+        break;
+      case "reset":
+        handlers.onReset();
+        break;
+      case "done":
+        return streamEvent.response;
+      case "error":
+        throw new Error(streamEvent.message);
+    }
+  }
+
+  throw new Error("The assistant stream ended before a reply was completed.");
+}
+
+async function sendChat(
+  snapshotSync: SnapshotSync,
+  request: ChatTurnRequest,
+  handlers: ChatStreamHandlers,
+  signal: AbortSignal
+): Promise<ChatResponse> {
+  const snapshot = extractPageSnapshot({ mode: SNAPSHOT_MODE });
+  const tools = getToolManifest();
+  let response: ChatResponse;
+
+  try {
+    response = await postChat(
+      { ...request, tools, ...snapshotSync.prepare(snapshot) },
+      handlers,
+      signal
+    );
+  } catch (error) {
+    if (!(error instanceof SnapshotResyncError)) {
+      throw error;
+    }
+
+    response = await postChat(
+      { ...request, tools, ...snapshotSync.prepare(snapshot, { full: true }) },
+      handlers,
+      signal
+    );
   }
 
-  return (await response.json()) as ChatResponse;
+  snapshotSync.acknowledge(response.snapshotVersion);
+  return response;
+}
+
+function ApprovalCard({
+  approval,
+  onDecide,
+}: {
+  approval: PendingApproval;
+  onDecide(decision: ApprovalDecision): void;
+}) {
+  const { call, assessment } = approval;
+  const [isEditing, setIsEditing] = useState(false);
+  const [argsDraft, setArgsDraft] = useState(() => JSON.stringify(call.args, null, 2));
+  const [error, setError] = useState("");
+
+  function approve() {
+    if (!isEditing) {
+      onDecide({ type: "approve", args: call.args });
+      return;
+    }
+
+    try {
+      const parsed: unknown = JSON.parse(argsDraft);
+      if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+        setError("Arguments must be a JSON object.");
+        return;
+      }
+      onDecide({ type: "approve", args: parsed as Record<string, unknown> });
+    } catch {
+      setError("Arguments are not valid JSON.");
+    }
+  }
+
+  return (
+    <div className="approval-card" role="group" aria-label="Action needs approval">
+      <p className="approval-title">Approve {formatToolLabel(call.name)}?</p>
+      {assessment.target ? <p className="approval-target">{assessment.target}</p> : null}
+      {assessment.reason ? <p className="approval-reason">{assessment.reason}</p> : null}
+      {isEditing ? (
+        <textarea
+          aria-label="Tool arguments"
+          rows={4}
+          value={argsDraft}
+          onChange={(event) => {
+            setArgsDraft(event.target.value);
+            setError("");
+          }}
+        />
+      ) : null}
+      {error ? <p className="approval-error">{error}</p> : null}
+      <div className="approval-actions">
+        <button type="button" className="reject" onClick={() => onDecide({ type: "reject" })}>
+          Reject
+        </button>
+        {isEditing ? null : (
+          <button type="button" onClick={() => setIsEditing(true)}>
+            Edit args
+          </button>
+        )}
+        <button type="button" className="approve" onClick={approve}>
+          Approve
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function GhostOutlines({ ghosts }: { ghosts: GhostOutline[] }) {
+  if (ghosts.length === 0) {
+    return null;
+  }
+
+  return createPortal(
+    <div className="ghost-layer" data-chat-ui="true" aria-hidden="true">
+      {ghosts.map((ghost, index) => (
+        <div
+          key={ghost.id}
+          className="ghost-outline"
+          style={{
+            left: ghost.box.x,
+            top: ghost.box.y,
+            width: ghost.box.width,
+            height: ghost.box.height,
+          }}
+          title={`${ghost.selector} (matched by ${ghost.matchedBy})`}
+        >
+          <span className="ghost-label">
+            {index + 1}. {ghost.label}
+            {ghost.value !== undefined ? `: ${ghost.value.slice(0, 40)}` : ""}
+          </span>
+        </div>
+      ))}
+    </div>,
+    document.body
+  );
+}
+
+function StopIcon() {
+  return (
+    <svg viewBox="0 0 24 24" aria-hidden="true">
+      <rect x="6" y="6" width="12" height="12" rx="2" />
+    </svg>
+  );
 }
 
 function ChatIcon() {
@@ -91,23 +408,68 @@ function SendIcon() {
 
 export function ChatPanel() {
   const [isOpen, setIsOpen] = useState(false);
-  const [messages, setMessages] = useState<ChatMessage[]>([
-    createMessage(
-      "assistant",
-      "I can navigate this portfolio for you. Ask me to jump sections, highlight projects, click links, or fill the contact form."
-    ),
-  ]);
+  const [threadId, setThreadId] = useState<string | null>(null);
+  const [messages, setMessages] = useState<ChatMessage[]>(() => [createWelcomeMessage()]);
+  const [sessionId, setSessionId] = useState<string | null>(null);
   const [draft, setDraft] = useState("");
   const [isBusy, setIsBusy] = useState(false);
+  const [isStopping, setIsStopping] = useState(false);
   const [flowItems, setFlowItems] = useState<FlowItem[]>([]);
+  const [streamingText, setStreamingText] = useState("");
+  const [agentRun, setAgentRun] = useState<AgentRun | null>(null);
+  const [snapshotSync] = useState(() => createSnapshotSync(createClientId()));
+  const [pendingApproval, setPendingApproval] = useState<PendingApproval | null>(null);
+  const [turnCallIds, setTurnCallIds] = useState<string[]>([]);
+  const [previewMode, setPreviewMode] = useState(false);
+  const [previewPlan, setPreviewPlan] = useState<ToolCall[]>([]);
+  const [ghosts, setGhosts] = useState<GhostOutline[]>([]);
+  const threads = useSyncExternalStore(subscribeThreads, getThreads, getThreads);
+  const undoEntries = useSyncExternalStore(subscribeUndo, peekUndo, peekUndo);
+  const tour = useSyncExternalStore(subscribeTour, getTour, getTour);
+  const annotations = useSyncExternalStore(
+    subscribeAnnotations,
+    getAnnotations,
+    getAnnotations
+  );
   const [unreadCount, setUnreadCount] = useState(0);
 
   const messageListRef = useRef<HTMLOListElement | null>(null);
   const previousMessageCountRef = useRef(messages.length);
+  const approvalResolverRef = useRef<((decision: ApprovalDecision) => void) | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Undo presses, plan runs, jumps, and calls cut off by Stop. They go out
+  // with the next turn so the server can check them into the session.
+  const panelActionsRef = useRef<PanelAction[]>([]);
+
+  const turnUndoCount = undoEntries.filter((entry) =>
+    turnCallIds.includes(entry.toolCallId)
+  ).length;
 
   const statusText = useMemo(() => {
-    return isBusy ? "Running your request..." : "Ready";
-  }, [isBusy]);
+    if (isStopping) {
+      return "Stopping...";
+    }
+
+    if (pendingApproval) {
+      return "Waiting for your approval...";
+    }
+
+    if (!isBusy) {
+      return "Ready";
+    }
+
+    return previewMode ? "Previewing your request..." : "Running your request...";
+  }, [isBusy, isStopping, pendingApproval, previewMode]);
+
+  useEffect(() => {
+    showThread(restoreActiveThread(createEmptyThread()));
+  }, []);
+
+  useEffect(() => {
+    if (threadId) {
+      saveThread(threadId, { messages, flowItems, sessionId });
+    }
+  }, [threadId, messages, flowItems, sessionId]);
 
   useEffect(() => {
     if (!isOpen) {
@@ -123,7 +485,7 @@ export function ChatPanel() {
       top: list.scrollHeight,
       behavior: "smooth",
     });
-  }, [messages, isOpen]);
+  }, [messages, streamingText, isOpen]);
 
   useEffect(() => {
     const previousCount = previousMessageCountRef.current;
@@ -158,6 +520,170 @@ export function ChatPanel() {
     return () => window.removeEventListener("keydown", onKeyDown);
   }, []);
 
+  function showThread(thread: ChatThread) {
+    previousMessageCountRef.current = thread.messages.length;
+    setThreadId(thread.id);
+    setMessages(thread.messages);
+    setFlowItems(thread.flowItems);
+    setSessionId(thread.sessionId);
+    panelActionsRef.current = [];
+    setAgentRun(null);
+    setTurnCallIds([]);
+    setPreviewPlan([]);
+    setGhosts([]);
+  }
+
+  function handleOpenThread(id: string) {
+    const thread = openThread(id);
+    if (thread) {
+      showThread(thread);
+    }
+  }
+
+  function handleCreateThread() {
+    showThread(createThread(createEmptyThread()));
+  }
+
+  function handleDeleteThread(id: string) {
+    deleteThread(id);
+    if (id === threadId) {
+      showThread(restoreActiveThread(createEmptyThread()));
+    }
+  }
+
+  function upsertFlowItem(flowItem: FlowItem) {
+    setFlowItems((previous) => {
+      if (!previous.some((item) => item.id === flowItem.id)) {
+        return [...previous, flowItem].slice(-MAX_FLOW_ITEMS);
+      }
+
+      return previous.map((item) => (item.id === flowItem.id ? flowItem : item));
+    });
+  }
+
+  function cancelPendingFlowItems() {
+    setFlowItems((previous) =>
+      previous.map((item) =>
+        PENDING_STATUSES.includes(item.status)
+          ? { ...item, detail: "Cancelled before it ran.", status: "cancelled" }
+          : item
+      )
+    );
+  }
+
+  function addPanelAction(action: PanelAction) {
+    panelActionsRef.current = [...panelActionsRef.current, action];
+  }
+
+  function takePanelActions(): PanelAction[] {
+    const actions = panelActionsRef.current;
+    panelActionsRef.current = [];
+    return actions;
+  }
+
+  function beginRun(): AbortSignal {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsBusy(true);
+    return controller.signal;
+  }
+
+  function endRun() {
+    abortControllerRef.current = null;
+    setIsStopping(false);
+    setIsBusy(false);
+  }
+
+  function stopRun() {
+    const controller = abortControllerRef.current;
+    if (!controller || controller.signal.aborted) {
+      return;
+    }
+
+    setIsStopping(true);
+    controller.abort();
+    if (approvalResolverRef.current) {
+      decideApproval({ type: "cancel" });
+    }
+  }
+
+  function requestApproval(approval: PendingApproval): Promise<ApprovalDecision> {
+    return new Promise((resolve) => {
+      approvalResolverRef.current = resolve;
+      setPendingApproval(approval);
+    });
+  }
+
+  function decideApproval(decision: ApprovalDecision) {
+    const resolve = approvalResolverRef.current;
+    approvalResolverRef.current = null;
+    setPendingApproval(null);
+    resolve?.(decision);
+  }
+
+  async function runToolCall(
+    call: ToolCall,
+    dryRun: boolean
+  ): Promise<{ call: ToolCall; result: ToolResult; status: FlowStatus }> {
+    const label = formatToolLabel(call.name);
+    const assessment = assessToolCall(call, TOOL_POLICY);
+    const rejected = (output: string) => ({
+      call,
+      result: { toolCallId: call.id, name: call.name, success: false, output },
+      status: "rejected" as FlowStatus,
+    });
+
+    if (assessment.risk === "deny") {
+      return rejected(
+        `Blocked by tool policy. ${assessment.reason ?? ""} The action was not run.`.trim()
+      );
+    }
+
+    if (dryRun) {
+      const { result, targets } = await previewToolCall(call);
+      setGhosts((previous) => [
+        ...previous,
+        ...targets.map((target, index) => ({ ...target, id: `${call.id}-${index}`, label })),
+      ]);
+      return { call, result, status: result.success ? "previewed" : "failed" };
+    }
+
+    let approvedCall = call;
+    if (assessment.risk === "confirm") {
+      upsertFlowItem({
+        id: call.id,
+        label,
+        detail: "Waiting for your approval...",
+        status: "awaiting",
+      });
+
+      const decision = await requestApproval({ call, assessment });
+      if (decision.type === "cancel") {
+        return {
+          call,
+          result: {
+            toolCallId: call.id,
+            name: call.name,
+            success: false,
+            output: "Cancelled before it ran.",
+          },
+          status: "cancelled",
+        };
+      }
+
+      if (decision.type === "reject") {
+        return rejected("The user rejected this action, so it was not run.");
+      }
+
+      approvedCall = { ...call, args: decision.args };
+    }
+
+    upsertFlowItem({ id: call.id, label, detail: "Executing action...", status: "running" });
+
+    const result = await executeToolCall(approvedCall);
+    return { call: approvedCall, result, status: result.success ? "success" : "failed" };
+  }
+
   async function runConversation(rawMessage: string) {
     const message = rawMessage.trim();
     if (!message || isBusy) {
@@ -166,89 +692,172 @@ export function ChatPanel() {
 
     setIsOpen(true);
     setDraft("");
-    setIsBusy(true);
+    const signal = beginRun();
 
     const userMessage = createMessage("user", message);
-    let history = [...messages, userMessage].slice(-MAX_HISTORY);
+    let history = [...messages, userMessage].slice(-MAX_THREAD_MESSAGES);
     setMessages(history);
 
+    const streamHandlers: ChatStreamHandlers = {
+      onDelta: (text) => setStreamingText((previous) => previous + text),
+      onReset: () => setStreamingText(""),
+      onToolCall: (call) => {
+        setFlowItems((previous) =>
+          [
+            ...previous,
+            {
+              id: call.id,
+              label: formatToolLabel(call.name),
+              detail: "Queued, waiting to run...",
+              status: "queued" as FlowStatus,
+            },
+          ].slice(-MAX_FLOW_ITEMS)
+        );
+      },
+    };
+
+    const dryRun = previewMode;
+    setAgentRun(null);
+    setTurnCallIds([]);
+    setPreviewPlan([]);
+    setGhosts([]);
+
+    let step = 0;
+    let completedActions = 0;
+    let turnSessionId = sessionId ?? undefined;
+    const issuedCalls: ToolCall[] = [];
+    const toolResults: ToolResult[] = [];
+    // Results up to here reached the server with a request that completed.
+    let deliveredResults = 0;
+
     try {
-      const firstReply = await postChat({
-        message,
-        history,
-        pageSnapshot: extractPageSnapshot(),
-      });
+      const plannedCalls: ToolCall[] = [];
 
-      if (firstReply.assistantMessage.trim()) {
-        const planningMessage = createMessage("assistant", firstReply.assistantMessage);
-        history = [...history, planningMessage].slice(-MAX_HISTORY);
-        setMessages(history);
-      }
+      let reply = await sendChat(
+        snapshotSync,
+        {
+          message,
+          history: history.slice(-MAX_HISTORY),
+          panelActions: takePanelActions(),
+          sessionId: turnSessionId,
+        },
+        streamHandlers,
+        signal
+      );
 
-      const toolCalls = firstReply.toolCalls?.slice(0, MAX_TOOL_CALLS_PER_TURN) ?? [];
-      if (firstReply.awaitingToolResults && toolCalls.length > 0) {
-        const toolResults: ToolResult[] = [];
-
-        for (const call of toolCalls) {
-          setFlowItems((previous) =>
-            [
-              ...previous,
-              {
-                id: call.id,
-                label: formatToolLabel(call.name),
-                detail: "Executing action...",
-                status: "running" as FlowStatus,
-              },
-            ].slice(-MAX_FLOW_ITEMS) as FlowItem[]
-          );
+      while (true) {
+        setStreamingText("");
+        if (reply.sessionId && reply.sessionId !== turnSessionId) {
+          turnSessionId = reply.sessionId;
+          setSessionId(reply.sessionId);
+        }
 
-          await delay(140);
-          const result = executeToolCall(call);
-          toolResults.push(result);
+        const toolCalls = reply.toolCalls?.slice(0, MAX_TOOL_CALLS_PER_TURN) ?? [];
+        const awaitingTools = reply.awaitingToolResults && toolCalls.length > 0;
 
-          setFlowItems((previous) =>
-            previous.map((item) => {
-              if (item.id !== call.id) {
-                return item;
-              }
-
-              return {
-                ...item,
-                detail: result.output,
-                status: (result.success ? "success" : "failed") as FlowStatus,
-              };
-            })
+        if (reply.assistantMessage.trim() || !awaitingTools) {
+          const replyMessage = createMessage(
+            "assistant",
+            reply.assistantMessage.trim() ||
+              (step > 0
+                ? "Action completed."
+                : "I could not generate a response. Please rephrase your request.")
           );
-
-          const toolMessage = createMessage("tool", `${result.name}: ${result.output}`);
-          history = [...history, toolMessage].slice(-MAX_HISTORY);
+          history = [...history, replyMessage].slice(-MAX_THREAD_MESSAGES);
           setMessages(history);
+        }
 
-          await delay(200);
+        if (!awaitingTools) {
+          if (step > 0) {
+            setAgentRun({ steps: step, stopReason: reply.stopReason ?? "completed" });
+          }
+          break;
         }
 
-        const finalReply = await postChat({
-          message,
-          history,
-          pageSnapshot: extractPageSnapshot(),
-          toolResults,
-        });
+        step += 1;
+
+        for (const requestedCall of toolCalls) {
+          signal.throwIfAborted();
+
+          const { call, result, status } = await runToolCall(requestedCall, dryRun);
+          if (status === "cancelled") {
+            upsertFlowItem({
+              id: call.id,
+              label: formatToolLabel(call.name),
+              detail: result.output,
+              status,
+            });
+            signal.throwIfAborted();
+          }
+
+          completedActions += 1;
+          issuedCalls.push(call);
+          toolResults.push(result);
+          setTurnCallIds((previous) => [...previous, call.id]);
+          if (status === "previewed") {
+            plannedCalls.push(call);
+          }
+
+          upsertFlowItem({
+            id: call.id,
+            label: formatToolLabel(call.name),
+            detail: result.output,
+            status,
+          });
+
+          const toolMessage: ChatMessage = {
+            ...createMessage("tool", `${result.name}: ${result.output}`),
+            toolCall: call,
+            toolResult: result,
+          };
+          history = [...history, toolMessage].slice(-MAX_THREAD_MESSAGES);
+          setMessages(history);
+        }
 
-        const finalMessage = createMessage(
-          "assistant",
-          finalReply.assistantMessage.trim() || "Action completed."
+        reply = await sendChat(
+          snapshotSync,
+          {
+            message,
+            history: history.slice(-MAX_HISTORY),
+            toolCalls: issuedCalls,
+            toolResults,
+            step,
+            sessionId: turnSessionId,
+          },
+          streamHandlers,
+          signal
         );
-        history = [...history, finalMessage].slice(-MAX_HISTORY);
-        setMessages(history);
-      } else if (!firstReply.assistantMessage.trim()) {
-        const fallbackMessage = createMessage(
-          "assistant",
-          "I could not generate a response. Please rephrase your request."
+        deliveredResults = toolResults.length;
+      }
+
+      if (dryRun) {
+        setPreviewPlan(plannedCalls);
+      }
+    } catch (error) {
+      if (signal.aborted) {
+        toolResults.slice(deliveredResults).forEach((toolResult, index) =>
+          addPanelAction({
+            kind: "late_result",
+            toolCall: issuedCalls[deliveredResults + index],
+            toolResult,
+          })
         );
-        history = [...history, fallbackMessage].slice(-MAX_HISTORY);
+        cancelPendingFlowItems();
+        if (step > 0) {
+          setAgentRun({ steps: step, stopReason: "cancelled" });
+        }
+        history = [
+          ...history,
+          createMessage("assistant", describeCancelledTurn(completedActions)),
+        ].slice(-MAX_THREAD_MESSAGES);
         setMessages(history);
+        return;
       }
-    } catch (error) {
+
+      if (error instanceof SessionExpiredError) {
+        setSessionId(null);
+      }
+
       const text =
         error instanceof Error
           ? error.message
@@ -258,10 +867,170 @@ export function ChatPanel() {
         [
           ...previous,
           createMessage("assistant", `I couldn't complete that request. ${text}`),
-        ].slice(-MAX_HISTORY)
+        ].slice(-MAX_THREAD_MESSAGES)
       );
     } finally {
-      setIsBusy(false);
+      setStreamingText("");
+      endRun();
+    }
+  }
+
+  async function runPreviewPlan() {
+    if (isBusy || previewPlan.length === 0) {
+      return;
+    }
+
+    const plan = previewPlan;
+    setPreviewPlan([]);
+    setGhosts([]);
+    setTurnCallIds([]);
+    const signal = beginRun();
+    let completedActions = 0;
+
+    try {
+      for (const planned of plan) {
+        if (signal.aborted) {
+          break;
+        }
+
+        const { call, result, status } = await runToolCall(
+          { ...planned, id: createClientId() },
+          false
+        );
+        if (status !== "cancelled") {
+          addPanelAction({
+            kind: "plan_run",
+            toolCall: call,
+            toolResult: result,
+            previewCallId: planned.id,
+          });
+        }
+        upsertFlowItem({
+          id: call.id,
+          label: formatToolLabel(call.name),
+          detail: result.output,
+          status,
+        });
+        if (status === "cancelled") {
+          break;
+        }
+
+        completedActions += 1;
+        setTurnCallIds((previous) => [...previous, call.id]);
+        setMessages((previous) =>
+          [
+            ...previous,
+            {
+              ...createMessage("tool", `${result.name}: ${result.output}`),
+              toolCall: call,
+              toolResult: result,
+            },
+          ].slice(-MAX_THREAD_MESSAGES)
+        );
+
+        if (!result.success) {
+          break;
+        }
+      }
+
+      if (signal.aborted) {
+        setMessages((previous) =>
+          [
+            ...previous,
+            createMessage("assistant", describeCancelledTurn(completedActions)),
+          ].slice(-MAX_THREAD_MESSAGES)
+        );
+      }
+    } finally {
+      endRun();
+    }
+  }
+
+  function discardPreviewPlan() {
+    setPreviewPlan([]);
+    setGhosts([]);
+  }
+
+  function handleUndo(scope: "last" | "turn") {
+    const outcomes: UndoOutcome[] =
+      scope === "last" ? undoLast() : undoToolCalls(turnCallIds);
+    if (outcomes.length === 0) {
+      return;
+    }
+
+    const call: ToolCall = {
+      id: createClientId(),
+      name: "undo_last_action",
+      args: { count: outcomes.length },
+    };
+    const result: ToolResult = {
+      toolCallId: call.id,
+      name: call.name,
+      success: outcomes.every((outcome) => outcome.success),
+      output: `The user pressed undo. ${describeUndoOutcomes(outcomes)}`,
+    };
+    addPanelAction({
+      kind: "undo",
+      toolCall: call,
+      toolResult: result,
+      undoneCallIds: outcomes.map((outcome) => outcome.toolCallId),
+    });
+
+    upsertFlowItem({
+      id: call.id,
+      label: scope === "last" ? "Undo Last Action" : "Undo This Turn",
+      detail: describeUndoOutcomes(outcomes),
+      status: result.success ? "success" : "failed",
+    });
+    setMessages((previous) =>
+      [
+        ...previous,
+        {
+          ...createMessage("tool", `${result.name}: ${result.output}`),
+          toolCall: call,
+          toolResult: result,
+        },
+      ].slice(-MAX_THREAD_MESSAGES)
+    );
+  }
+
+  // Jump links in assistant messages run navigate_to_section through the same
+  // policy and approval path as model calls. The result goes out as a panel
+  // action so the next turn reports it.
+  async function handleJump(sectionId: string) {
+    if (isBusy) {
+      return;
+    }
+
+    beginRun();
+    try {
+      const { call, result, status } = await runToolCall(
+        { id: createClientId(), name: "navigate_to_section", args: { sectionId } },
+        false
+      );
+      upsertFlowItem({
+        id: call.id,
+        label: formatToolLabel(call.name),
+        detail: result.output,
+        status,
+      });
+      if (status === "cancelled") {
+        return;
+      }
+
+      addPanelAction({ kind: "jump", toolCall: call, toolResult: result });
+      setMessages((previous) =>
+        [
+          ...previous,
+          {
+            ...createMessage("tool", `${result.name}: ${result.output}`),
+            toolCall: call,
+            toolResult: result,
+          },
+        ].slice(-MAX_THREAD_MESSAGES)
+      );
+    } finally {
+      endRun();
     }
   }
 
@@ -311,6 +1080,20 @@ export function ChatPanel() {
           </button>
         </header>
 
+        <ThreadSwitcher
+          threads={threads}
+          activeThreadId={threadId}
+          disabled={isBusy}
+          onOpen={handleOpenThread}
+          onCreate={handleCreateThread}
+          onRename={renameThread}
+          onDelete={handleDeleteThread}
+        />
+
+        {sessionId ? (
+          <MemoryCard sessionId={sessionId} refreshKey={messages.length} disabled={isBusy} />
+        ) : null}
+
         <section className="quick-actions" aria-label="Quick prompts">
           {QUICK_PROMPTS.map((prompt) => (
             <button
@@ -330,6 +1113,81 @@ export function ChatPanel() {
             <h3>Action Flow</h3>
             <p>{flowItems.length === 0 ? "No actions yet" : "Live execution timeline"}</p>
           </div>
+          <label className="preview-toggle">
+            <input
+              type="checkbox"
+              checked={previewMode}
+              onChange={(event) => setPreviewMode(event.target.checked)}
+              disabled={isBusy}
+            />
+            Preview actions before running them
+          </label>
+          {previewPlan.length > 0 ? (
+            <div className="preview-plan" role="group" aria-label="Previewed plan">
+              <p>
+                Previewed {previewPlan.length} action{previewPlan.length === 1 ? "" : "s"}.
+                Nothing on the page has changed yet.
+              </p>
+              <div className="approval-actions">
+                <button type="button" className="reject" onClick={discardPreviewPlan}>
+                  Discard
+                </button>
+                <button
+                  type="button"
+                  className="approve"
+                  onClick={() => void runPreviewPlan()}
+                  disabled={isBusy}
+                >
+                  Run plan
+                </button>
+              </div>
+            </div>
+          ) : null}
+          {undoEntries.length > 0 ? (
+            <div className="undo-actions">
+              <button
+                type="button"
+                onClick={() => handleUndo("last")}
+                disabled={isBusy}
+                title={`Undo: ${undoEntries[undoEntries.length - 1].label}`}
+              >
+                Undo last action
+              </button>
+              {turnUndoCount > 1 ? (
+                <button type="button" onClick={() => handleUndo("turn")} disabled={isBusy}>
+                  Undo this turn ({turnUndoCount})
+                </button>
+              ) : null}
+            </div>
+          ) : null}
+          {annotations.some((annotation) => annotation.persistent) ? (
+            <div className="undo-actions">
+              <button type="button" onClick={clearAnnotations}>
+                Clear highlights ({annotations.length})
+              </button>
+            </div>
+          ) : null}
+          {agentRun ? (
+            <p className={`flow-stop ${agentRun.stopReason}`}>{describeAgentRun(agentRun)}</p>
+          ) : null}
+          {tour ? (
+            <div className="tour-status">
+              <p>
+                Tour stop {tour.index + 1} of {tour.stops.length}:{" "}
+                {tour.stops[tour.index].label}
+              </p>
+              <button type="button" onClick={exitTour}>
+                End tour
+              </button>
+            </div>
+          ) : null}
+          {pendingApproval ? (
+            <ApprovalCard
+              key={pendingApproval.call.id}
+              approval={pendingApproval}
+              onDecide={decideApproval}
+            />
+          ) : null}
           {flowItems.length === 0 ? (
             <p className="flow-empty">Tool calls will appear here as they run.</p>
           ) : (
@@ -354,10 +1212,31 @@ export function ChatPanel() {
               className={`message ${messageItem.role}`}
             >
               <p className="message-role">{messageItem.role}</p>
-              <p>{messageItem.content}</p>
+              {messageItem.role === "assistant" ? (
+                <MarkdownMessage
+                  text={messageItem.content}
+                  onJump={(sectionId) => void handleJump(sectionId)}
+                  jumpDisabled={isBusy}
+                />
+              ) : messageItem.role === "tool" ? (
+                <ToolMessage
+                  message={messageItem}
+                  status={
+                    flowItems.find((item) => item.id === messageItem.toolCall?.id)?.status
+                  }
+                />
+              ) : (
+                <p>{messageItem.content}</p>
+              )}
             </li>
           ))}
-          {isBusy ? (
+          {isBusy && streamingText ? (
+            <li className="message assistant streaming">
+              <p className="message-role">assistant</p>
+              <MarkdownMessage text={streamingText} onJump={() => undefined} jumpDisabled />
+            </li>
+          ) : null}
+          {isBusy && !streamingText ? (
             <li className="message assistant typing">
               <p className="message-role">assistant</p>
               <p className="typing-indicator">
@@ -382,13 +1261,28 @@ export function ChatPanel() {
           />
           <div className="form-row">
             <p className="key-hint">Press Ctrl+K to toggle chat</p>
-            <button type="submit" disabled={isBusy || !draft.trim()}>
-              <SendIcon />
-              <span>{isBusy ? "Working..." : "Send"}</span>
-            </button>
+            {isBusy ? (
+              <button
+                type="button"
+                className="stop-button"
+                onClick={stopRun}
+                disabled={isStopping}
+              >
+                <StopIcon />
+                <span>{isStopping ? "Stopping..." : "Stop"}</span>
+              </button>
+            ) : (
+              <button type="submit" disabled={!draft.trim()}>
+                <SendIcon />
+                <span>Send</span>
+              </button>
+            )}
           </div>
         </form>
       </aside>
+      <GhostOutlines ghosts={ghosts} />
+      <TourCallout />
+      <HighlightOverlay />
     </div>
   );
 }
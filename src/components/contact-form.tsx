@@ -0,0 +1,84 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+
+export function ContactForm() {
+  const [sentTo, setSentTo] = useState("");
+
+  // The page owns sending. This demo has no backend, so it confirms and
+  // resets instead of letting the browser submit and navigate away.
+  function handleSubmit(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    const form = event.currentTarget;
+    const field = form.elements.namedItem("name");
+    const name = field instanceof HTMLInputElement ? field.value.trim() : "";
+    setSentTo(name || "there");
+    form.reset();
+  }
+
+  // Name, email and message are required by the form itself. The snapshot
+  // reports missingRequired from these attributes, and submit_form relies on
+  // the same checks before sending.
+  return (
+    <form className="contact-form" id="contact-form" onSubmit={handleSubmit}>
+      <label htmlFor="contact-name">Name</label>
+      <input
+        id="contact-name"
+        name="name"
+        required
+        type="text"
+        placeholder="Your name"
+      />
+
+      <label htmlFor="contact-email">Email</label>
+      <input
+        id="contact-email"
+        name="email"
+        required
+        type="email"
+        placeholder="you@example.com"
+      />
+
+      <label htmlFor="contact-subject">Subject</label>
+      <input
+        id="contact-subject"
+        name="subject"
+        type="text"
+        placeholder="Project idea"
+      />
+
+      <label htmlFor="contact-project-type">Project type</label>
+      <select id="contact-project-type" name="projectType" defaultValue="">
+        <option value="" disabled>
+          Choose one
+        </option>
+        <option value="web-app">Web app</option>
+        <option value="mobile-app">Mobile app</option>
+        <option value="consulting">Consulting</option>
+      </select>
+
+      <label htmlFor="contact-message">Message</label>
+      <textarea
+        id="contact-message"
+        name="message"
+        required
+        rows={5}
+        placeholder="Tell me what you are building"
+      />
+
+      <label className="contact-checkbox" htmlFor="contact-copy">
+        <input id="contact-copy" name="copy" type="checkbox" />
+        Send me a copy of this message
+      </label>
+
+      <button type="submit" aria-label="Send contact message">
+        Send Message
+      </button>
+      {sentTo ? (
+        <p className="contact-status" role="status">
+          Thanks, {sentTo}. Your message is ready; this demo does not send email.
+        </p>
+      ) : null}
+    </form>
+  );
+}
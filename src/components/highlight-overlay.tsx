@@ -0,0 +1,87 @@
+"use client";
+
+import { useEffect, useState, useSyncExternalStore } from "react";
+import { createPortal } from "react-dom";
+import {
+  dismissAnnotation,
+  getAnnotations,
+  subscribeAnnotations,
+  type Annotation,
+} from "@/lib/highlight-overlay";
+
+const OUTLINE_PADDING = 4;
+
+function AnnotationBox({ annotation }: { annotation: Annotation }) {
+  const rect = annotation.element.getBoundingClientRect();
+
+  return (
+    <div
+      className={`annotation ${annotation.intent}`}
+      style={{
+        top: rect.top - OUTLINE_PADDING,
+        left: rect.left - OUTLINE_PADDING,
+        width: rect.width + OUTLINE_PADDING * 2,
+        height: rect.height + OUTLINE_PADDING * 2,
+      }}
+    >
+      {annotation.label || annotation.persistent ? (
+        <span className="annotation-label">
+          {annotation.label}
+          {annotation.persistent ? (
+            <button
+              type="button"
+              aria-label={`Dismiss highlight${annotation.label ? ` ${annotation.label}` : ""}`}
+              onClick={() => dismissAnnotation(annotation.id)}
+            >
+              ×
+            </button>
+          ) : null}
+        </span>
+      ) : null}
+    </div>
+  );
+}
+
+export function HighlightOverlay() {
+  const annotations = useSyncExternalStore(
+    subscribeAnnotations,
+    getAnnotations,
+    getAnnotations
+  );
+  const [, setLayoutVersion] = useState(0);
+
+  useEffect(() => {
+    if (annotations.length === 0) {
+      return;
+    }
+
+    let frame = 0;
+    function relayout() {
+      window.cancelAnimationFrame(frame);
+      frame = window.requestAnimationFrame(() => setLayoutVersion((value) => value + 1));
+    }
+
+    window.addEventListener("scroll", relayout, { capture: true, passive: true });
+    window.addEventListener("resize", relayout);
+
+    return () => {
+      window.cancelAnimationFrame(frame);
+      window.removeEventListener("scroll", relayout, { capture: true });
+      window.removeEventListener("resize", relayout);
+    };
+  }, [annotations]);
+
+  const visible = annotations.filter((annotation) => annotation.element.isConnected);
+  if (visible.length === 0) {
+    return null;
+  }
+
+  return createPortal(
+    <div className="annotation-layer" data-chat-ui="true">
+      {visible.map((annotation) => (
+        <AnnotationBox key={annotation.id} annotation={annotation} />
+      ))}
+    </div>,
+    document.body
+  );
+}
@@ -0,0 +1,93 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { describeFacts } from "@/lib/conversation-memory";
+import type { MemoryResponse } from "@/lib/types";
+
+async function requestMemory(sessionId: string, method: "GET" | "DELETE"): Promise<MemoryResponse> {
+  const response = await fetch(`/api/memory?sessionId=${encodeURIComponent(sessionId)}`, {
+    method,
+  });
+  const body = (await response.json()) as Partial<MemoryResponse> & { error?: string };
+
+  if (!response.ok) {
+    throw new Error(body.error || "Could not load what the assistant remembers.");
+  }
+
+  return body as MemoryResponse;
+}
+
+export function MemoryCard({
+  sessionId,
+  refreshKey,
+  disabled,
+}: {
+  sessionId: string;
+  refreshKey: number;
+  disabled: boolean;
+}) {
+  const [memory, setMemory] = useState<MemoryResponse | null>(null);
+  const [error, setError] = useState("");
+  const [isClearing, setIsClearing] = useState(false);
+
+  useEffect(() => {
+    let active = true;
+
+    requestMemory(sessionId, "GET")
+      .then((next) => {
+        if (active) {
+          setMemory(next);
+          setError("");
+        }
+      })
+      .catch((loadError: unknown) => {
+        if (active) {
+          setMemory(null);
+          setError(loadError instanceof Error ? loadError.message : String(loadError));
+        }
+      });
+
+    return () => {
+      active = false;
+    };
+  }, [sessionId, refreshKey]);
+
+  async function clearMemory() {
+    setIsClearing(true);
+    try {
+      setMemory(await requestMemory(sessionId, "DELETE"));
+      setError("");
+    } catch (clearError) {
+      setError(clearError instanceof Error ? clearError.message : String(clearError));
+    } finally {
+      setIsClearing(false);
+    }
+  }
+
+  const facts = memory ? describeFacts(memory.facts) : [];
+  const isEmpty = facts.length === 0 && !memory?.summary;
+
+  return (
+    <details className="memory-card">
+      <summary>What the assistant remembers</summary>
+      {error ? <p className="memory-error">{error}</p> : null}
+      {memory && isEmpty ? <p className="memory-empty">Nothing remembered yet.</p> : null}
+      {facts.length > 0 ? (
+        <ul>
+          {facts.map((fact) => (
+            <li key={fact}>{fact}</li>
+          ))}
+        </ul>
+      ) : null}
+      {memory?.summary ? <p className="memory-summary">{memory.summary}</p> : null}
+      <button
+        type="button"
+        className="danger"
+        onClick={() => void clearMemory()}
+        disabled={disabled || isClearing || !memory || isEmpty}
+      >
+        Clear memory
+      </button>
+    </details>
+  );
+}
@@ -0,0 +1,155 @@
+"use client";
+
+import type { ReactNode } from "react";
+import type { FlowStatus } from "@/lib/chat-threads";
+import { parseMarkdown, type MarkdownInline } from "@/lib/markdown";
+import type { ChatMessage, ToolCall } from "@/lib/types";
+
+const STATUS_LABELS: Record<FlowStatus, string> = {
+  queued: "Queued",
+  awaiting: "Awaiting approval",
+  running: "Running",
+  previewed: "Previewed",
+  success: "Done",
+  failed: "Failed",
+  rejected: "Rejected",
+  cancelled: "Cancelled",
+};
+
+export function formatToolLabel(name: string): string {
+  return name
+    .split("_")
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join(" ");
+}
+
+function describeToolTarget(call: ToolCall): string {
+  const { args } = call;
+  const quote = (value: unknown) => (typeof value === "string" ? `"${value}"` : "");
+
+  if (Array.isArray(args.targets)) {
+    return `${args.targets.length} elements`;
+  }
+  if (Array.isArray(args.stops)) {
+    return `${args.stops.length} stops`;
+  }
+  if (typeof args.values === "object" && args.values !== null) {
+    return Object.keys(args.values).join(", ");
+  }
+  if (typeof args.delta === "number") {
+    return `${args.delta > 0 ? "down" : "up"} ${Math.abs(args.delta)}px`;
+  }
+
+  return (
+    [
+      typeof args.sectionId === "string" ? `#${args.sectionId}` : "",
+      typeof args.ref === "string" ? args.ref : "",
+      quote(args.text),
+      quote(args.query),
+      typeof args.fieldName === "string" ? args.fieldName : "",
+      typeof args.selector === "string" ? args.selector : "",
+    ].find(Boolean) ?? ""
+  );
+}
+
+function renderInline(
+  nodes: MarkdownInline[],
+  onJump: (sectionId: string) => void,
+  jumpDisabled: boolean
+): ReactNode[] {
+  return nodes.map((node, index) => {
+    switch (node.type) {
+      case "text":
+        return node.text;
+      case "code":
+        return <code key={index}>{node.text}</code>;
+      case "strong":
+        return <strong key={index}>{renderInline(node.children, onJump, jumpDisabled)}</strong>;
+      case "emphasis":
+        return <em key={index}>{renderInline(node.children, onJump, jumpDisabled)}</em>;
+      case "link":
+        return (
+          <a key={index} href={node.href} target="_blank" rel="noopener noreferrer nofollow">
+            {renderInline(node.children, onJump, jumpDisabled)}
+          </a>
+        );
+      case "jump":
+        return (
+          <button
+            key={index}
+            type="button"
+            className="jump-link"
+            onClick={() => onJump(node.sectionId)}
+            disabled={jumpDisabled}
+            title={`Go to the ${node.sectionId} section`}
+          >
+            {renderInline(node.children, onJump, jumpDisabled)}
+          </button>
+        );
+    }
+  });
+}
+
+export function MarkdownMessage({
+  text,
+  onJump,
+  jumpDisabled,
+}: {
+  text: string;
+  onJump(sectionId: string): void;
+  jumpDisabled: boolean;
+}) {
+  const inline = (nodes: MarkdownInline[]) => renderInline(nodes, onJump, jumpDisabled);
+
+  return (
+    <div className="markdown">
+      {parseMarkdown(text).map((block, index) => {
+        switch (block.type) {
+          case "paragraph":
+            return <p key={index}>{inline(block.children)}</p>;
+          case "heading":
+            return (
+              <p key={index} className="markdown-heading">
+                {inline(block.children)}
+              </p>
+            );
+          case "quote":
+            return <blockquote key={index}>{inline(block.children)}</blockquote>;
+          case "code_block":
+            return (
+              <pre key={index}>
+                <code>{block.text}</code>
+              </pre>
+            );
+          case "list": {
+            const items = block.items.map((item, itemIndex) => (
+              <li key={itemIndex}>{inline(item)}</li>
+            ));
+            return block.ordered ? <ol key={index}>{items}</ol> : <ul key={index}>{items}</ul>;
+          }
+        }
+      })}
+    </div>
+  );
+}
+
+export function ToolMessage({ message, status }: { message: ChatMessage; status?: FlowStatus }) {
+  const { toolCall, toolResult } = message;
+  if (!toolCall || !toolResult) {
+    return <p>{message.content}</p>;
+  }
+
+  const resolvedStatus = status ?? (toolResult.success ? "success" : "failed");
+  const target = describeToolTarget(toolCall);
+
+  return (
+    <div className={`tool-message ${resolvedStatus}`}>
+      <p className="tool-message-header">
+        <strong>{formatToolLabel(toolCall.name)}</strong>
+        {target ? <code>{target}</code> : null}
+        <span className="tool-message-status">{STATUS_LABELS[resolvedStatus]}</span>
+      </p>
+      <p>{toolResult.output}</p>
+    </div>
+  );
+}
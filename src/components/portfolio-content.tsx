@@ -1,32 +1,5 @@
-const projects = [
-  {
-    title: "PulseCart Analytics",
-    year: "2026",
-    description:
-      "A storefront analytics cockpit that predicts churn risk and suggests campaign actions in real time.",
-    tech: ["Next.js", "PostgreSQL", "Redis", "Chart.js"],
-    github: "https://github.com/",
-    demo: "https://vercel.com/",
-  },
-  {
-    title: "Atlas Talent Finder",
-    year: "2025",
-    description:
-      "A candidate ranking pipeline that combines resume parsing, skill extraction, and interview feedback loops.",
-    tech: ["TypeScript", "Node.js", "Prisma", "OpenAI"],
-    github: "https://github.com/",
-    demo: "https://vercel.com/",
-  },
-  {
-    title: "Dockline Planner",
-    year: "2024",
-    description:
-      "A collaboration board for distributed product teams with timeline views and decision logs.",
-    tech: ["React", "Express", "MongoDB", "Socket.IO"],
-    github: "https://github.com/",
-    demo: "https://vercel.com/",
-  },
-];
+import { ContactForm } from "@/components/contact-form";
+import { ProjectGrid } from "@/components/project-grid";
 
 const skills = [
   "TypeScript",
@@ -112,50 +85,7 @@ export function PortfolioContent() {
           <h2>Projects</h2>
           <p>Selected projects with production-style architecture and real data.</p>
         </div>
-        <div className="project-grid">
-          {projects.map((project, index) => (
-            <article
-              key={project.title}
-              id={`project-${index + 1}`}
-              className="project-card"
-              data-project-card
-              data-project-title={project.title}
-              data-project-order={index + 1}
-            >
-              <p className="project-meta">
-                <span>{project.year}</span>
-                {index === 0 ? <span className="recent-tag">Most Recent</span> : null}
-              </p>
-              <h3>{project.title}</h3>
-              <p>{project.description}</p>
-              <ul className="chip-list">
-                {project.tech.map((item) => (
-                  <li key={`${project.title}-${item}`}>{item}</li>
-                ))}
-              </ul>
-              <div className="project-links">
-                <a
-                  id={`project-${index + 1}-github`}
-                  href={project.github}
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  aria-label={`Open GitHub for ${project.title}`}
-                >
-                  GitHub
-                </a>
-                <a
-                  id={`project-${index + 1}-demo`}
-                  href={project.demo}
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  aria-label={`Open live demo for ${project.title}`}
-                >
-                  Live Demo
-                </a>
-              </div>
-            </article>
-          ))}
-        </div>
+        <ProjectGrid />
       </section>
 
       <section
@@ -185,43 +115,7 @@ export function PortfolioContent() {
           Share your project scope and timeline. I usually reply within one
           business day.
         </p>
-        <form className="contact-form" id="contact-form">
-          <label htmlFor="contact-name">Name</label>
-          <input
-            id="contact-name"
-            name="name"
-            type="text"
-            placeholder="Your name"
-          />
-
-          <label htmlFor="contact-email">Email</label>
-          <input
-            id="contact-email"
-            name="email"
-            type="email"
-            placeholder="you@example.com"
-          />
-
-          <label htmlFor="contact-subject">Subject</label>
-          <input
-            id="contact-subject"
-            name="subject"
-            type="text"
-            placeholder="Project idea"
-          />
-
-          <label htmlFor="contact-message">Message</label>
-          <textarea
-            id="contact-message"
-            name="message"
-            rows={5}
-            placeholder="Tell me what you are building"
-          />
-
-          <button type="button" aria-label="Send contact message">
-            Send Message
-          </button>
-        </form>
+        <ContactForm />
       </section>
     </main>
   );
@@ -0,0 +1,156 @@
+"use client";
+
+import { useState } from "react";
+import { defineTool } from "@/lib/tool-definitions";
+import { useRegisteredTool } from "@/lib/tool-registry";
+import { schema } from "@/lib/tool-schema";
+
+const projects = [
+  {
+    title: "PulseCart Analytics",
+    year: "2026",
+    description:
+      "A storefront analytics cockpit that predicts churn risk and suggests campaign actions in real time.",
+    tech: ["Next.js", "PostgreSQL", "Redis", "Chart.js"],
+    github: "https://github.com/",
+    demo: "https://vercel.com/",
+  },
+  {
+    title: "Atlas Talent Finder",
+    year: "2025",
+    description:
+      "A candidate ranking pipeline that combines resume parsing, skill extraction, and interview feedback loops.",
+    tech: ["TypeScript", "Node.js", "Prisma", "OpenAI"],
+    github: "https://github.com/",
+    demo: "https://vercel.com/",
+  },
+  {
+    title: "Dockline Planner",
+    year: "2024",
+    description:
+      "A collaboration board for distributed product teams with timeline views and decision logs.",
+    tech: ["React", "Express", "MongoDB", "Socket.IO"],
+    github: "https://github.com/",
+    demo: "https://vercel.com/",
+  },
+];
+
+const filterProjectsParameters = schema.object(
+  {
+    tech: schema.string(
+      "Technology to filter by, for example React or PostgreSQL. An empty value shows all projects."
+    ),
+  },
+  { required: ["tech"] }
+);
+
+type Project = (typeof projects)[number];
+
+function findTech(project: Project, tech: string): string | undefined {
+  const wanted = tech.trim().toLowerCase();
+  return project.tech.find((item) => item.toLowerCase() === wanted);
+}
+
+function matchesTech(project: Project, tech: string): boolean {
+  return !tech.trim() || findTech(project, tech) !== undefined;
+}
+
+export function ProjectGrid() {
+  const [tech, setTech] = useState("");
+  const visible = projects.filter((project) => matchesTech(project, tech));
+
+  // A page tool: the assistant sees filter_projects only while this grid is
+  // mounted.
+  useRegisteredTool(
+    defineTool({
+      name: "filter_projects",
+      description:
+        "Show only the projects built with one technology from their tech list. Pass an empty tech to show all projects again.",
+      parameters: filterProjectsParameters,
+      execute: (call, args) => {
+        const matches = projects.filter((project) => matchesTech(project, args.tech));
+        if (matches.length === 0) {
+          return {
+            toolCallId: call.id,
+            name: call.name,
+            success: false,
+            output: `No project uses "${args.tech}". Technologies listed: ${Array.from(
+              new Set(projects.flatMap((project) => project.tech))
+            ).join(", ")}.`,
+          };
+        }
+
+        // Show the spelling from the tech list, not the model's.
+        const wanted = findTech(matches[0], args.tech) ?? "";
+        const titles = matches.map((project) => project.title).join(", ");
+        setTech(wanted);
+        return {
+          toolCallId: call.id,
+          name: call.name,
+          success: true,
+          output: wanted
+            ? `Showing ${matches.length} project(s) built with ${wanted}: ${titles}.`
+            : "Showing all projects.",
+        };
+      },
+    })
+  );
+
+  return (
+    <>
+      {tech ? (
+        <p className="project-filter" role="status">
+          Showing projects built with {tech}.{" "}
+          <button type="button" onClick={() => setTech("")}>
+            Show all
+          </button>
+        </p>
+      ) : null}
+      <div className="project-grid">
+        {projects.map((project, index) => (
+          <article
+            key={project.title}
+            hidden={!visible.includes(project)}
+            id={`project-${index + 1}`}
+            className="project-card"
+            data-project-card
+            data-project-title={project.title}
+            data-project-order={index + 1}
+          >
+            <p className="project-meta">
+              <span>{project.year}</span>
+              {index === 0 ? <span className="recent-tag">Most Recent</span> : null}
+            </p>
+            <h3>{project.title}</h3>
+            <p>{project.description}</p>
+            <ul className="chip-list">
+              {project.tech.map((item) => (
+                <li key={`${project.title}-${item}`}>{item}</li>
+              ))}
+            </ul>
+            <div className="project-links">
+              <a
+                id={`project-${index + 1}-github`}
+                href={project.github}
+                target="_blank"
+                rel="noopener noreferrer"
+                aria-label={`Open GitHub for ${project.title}`}
+              >
+                GitHub
+              </a>
+              <a
+                id={`project-${index + 1}-demo`}
+                href={project.demo}
+                target="_blank"
+                rel="noopener noreferrer"
+                aria-label={`Open live demo for ${project.title}`}
+              >
+                Live Demo
+              </a>
+            </div>
+          </article>
+        ))}
+      </div>
+    </>
+  );
+}
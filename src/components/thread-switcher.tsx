@@ -0,0 +1,108 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+import { describeThread, type ChatThread } from "@/lib/chat-threads";
+
+type EditMode = "none" | "rename" | "delete";
+
+export function ThreadSwitcher({
+  threads,
+  activeThreadId,
+  disabled,
+  onOpen,
+  onCreate,
+  onRename,
+  onDelete,
+}: {
+  threads: ChatThread[];
+  activeThreadId: string | null;
+  disabled: boolean;
+  onOpen(id: string): void;
+  onCreate(): void;
+  onRename(id: string, title: string): void;
+  onDelete(id: string): void;
+}) {
+  const [mode, setMode] = useState<EditMode>("none");
+  const [titleDraft, setTitleDraft] = useState("");
+  const active = threads.find((thread) => thread.id === activeThreadId) ?? null;
+
+  function startRename() {
+    setTitleDraft(active ? describeThread(active) : "");
+    setMode("rename");
+  }
+
+  function submitRename(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    if (active) {
+      onRename(active.id, titleDraft);
+    }
+    setMode("none");
+  }
+
+  if (mode === "rename" && active) {
+    return (
+      <form className="thread-switcher" onSubmit={submitRename}>
+        <input
+          aria-label="Conversation name"
+          value={titleDraft}
+          onChange={(event) => setTitleDraft(event.target.value)}
+          placeholder="Leave empty to name it after the first question"
+          autoFocus
+        />
+        <button type="button" onClick={() => setMode("none")}>
+          Cancel
+        </button>
+        <button type="submit" className="primary">
+          Save
+        </button>
+      </form>
+    );
+  }
+
+  if (mode === "delete" && active) {
+    return (
+      <div className="thread-switcher" role="group" aria-label="Delete conversation">
+        <p>Delete &ldquo;{describeThread(active)}&rdquo;?</p>
+        <button type="button" onClick={() => setMode("none")}>
+          Cancel
+        </button>
+        <button
+          type="button"
+          className="danger"
+          onClick={() => {
+            onDelete(active.id);
+            setMode("none");
+          }}
+        >
+          Delete
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="thread-switcher">
+      <select
+        aria-label="Conversation"
+        value={activeThreadId ?? ""}
+        onChange={(event) => onOpen(event.target.value)}
+        disabled={disabled || threads.length === 0}
+      >
+        {threads.map((thread) => (
+          <option key={thread.id} value={thread.id}>
+            {describeThread(thread)}
+          </option>
+        ))}
+      </select>
+      <button type="button" onClick={onCreate} disabled={disabled}>
+        New
+      </button>
+      <button type="button" onClick={startRename} disabled={disabled || !active}>
+        Rename
+      </button>
+      <button type="button" onClick={() => setMode("delete")} disabled={disabled || !active}>
+        Delete
+      </button>
+    </div>
+  );
+}
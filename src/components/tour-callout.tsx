@@ -0,0 +1,157 @@
+"use client";
+
+import { useEffect, useRef, useState, useSyncExternalStore } from "react";
+import { createPortal } from "react-dom";
+import {
+  exitTour,
+  getTour,
+  nextStop,
+  pauseTour,
+  previousStop,
+  subscribeTour,
+} from "@/lib/guided-tour";
+
+const CALLOUT_WIDTH = 280;
+const CALLOUT_GAP = 12;
+const VIEWPORT_MARGIN = 8;
+
+interface CalloutPosition {
+  top: number;
+  left: number;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), Math.max(min, max));
+}
+
+function placeCallout(element: HTMLElement, height: number): CalloutPosition {
+  const rect = element.getBoundingClientRect();
+  const maxTop = window.innerHeight - height - VIEWPORT_MARGIN;
+  let top = rect.bottom + CALLOUT_GAP;
+
+  if (top > maxTop && rect.top - CALLOUT_GAP - height >= VIEWPORT_MARGIN) {
+    top = rect.top - CALLOUT_GAP - height;
+  }
+
+  return {
+    top: clamp(top, VIEWPORT_MARGIN, maxTop),
+    left: clamp(rect.left, VIEWPORT_MARGIN, window.innerWidth - CALLOUT_WIDTH - VIEWPORT_MARGIN),
+  };
+}
+
+export function TourCallout() {
+  const tour = useSyncExternalStore(subscribeTour, getTour, getTour);
+  const [position, setPosition] = useState<CalloutPosition | null>(null);
+  const calloutRef = useRef<HTMLDivElement | null>(null);
+  const stop = tour?.stops[tour.index] ?? null;
+
+  useEffect(() => {
+    if (!stop) {
+      return;
+    }
+
+    let frame = 0;
+    function reposition() {
+      window.cancelAnimationFrame(frame);
+      frame = window.requestAnimationFrame(() => {
+        if (stop) {
+          setPosition(placeCallout(stop.element, calloutRef.current?.offsetHeight ?? 150));
+        }
+      });
+    }
+
+    reposition();
+    window.addEventListener("scroll", reposition, { passive: true });
+    window.addEventListener("resize", reposition);
+
+    return () => {
+      window.cancelAnimationFrame(frame);
+      window.removeEventListener("scroll", reposition);
+      window.removeEventListener("resize", reposition);
+    };
+  }, [stop]);
+
+  useEffect(() => {
+    if (!tour?.autoAdvanceMs) {
+      return;
+    }
+
+    const timer = window.setTimeout(() => {
+      if (tour.index < tour.stops.length - 1) {
+        nextStop();
+      } else {
+        pauseTour();
+      }
+    }, tour.autoAdvanceMs);
+
+    return () => window.clearTimeout(timer);
+  }, [tour]);
+
+  useEffect(() => {
+    if (!tour) {
+      return;
+    }
+
+    function onKeyDown(event: KeyboardEvent) {
+      if (event.key === "Escape") {
+        exitTour();
+      }
+    }
+
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [tour]);
+
+  if (!tour || !stop) {
+    return null;
+  }
+
+  const isLast = tour.index === tour.stops.length - 1;
+
+  return createPortal(
+    <div
+      ref={calloutRef}
+      className="tour-callout"
+      data-chat-ui="true"
+      role="dialog"
+      aria-label="Guided tour"
+      style={position ?? { visibility: "hidden" }}
+    >
+      <p className="tour-step">
+        Stop {tour.index + 1} of {tour.stops.length}
+        {tour.autoAdvanceMs ? " (auto)" : ""}
+      </p>
+      <p className="tour-caption">{stop.caption}</p>
+      <div className="tour-actions">
+        <button type="button" className="tour-exit" onClick={exitTour}>
+          Exit
+        </button>
+        <button
+          type="button"
+          onClick={() => {
+            pauseTour();
+            previousStop();
+          }}
+          disabled={tour.index === 0}
+        >
+          Previous
+        </button>
+        <button
+          type="button"
+          className="tour-next"
+          onClick={() => {
+            pauseTour();
+            if (isLast) {
+              exitTour();
+            } else {
+              nextStop();
+            }
+          }}
+        >
+          {isLast ? "Finish" : "Next"}
+        </button>
+      </div>
+    </div>,
+    document.body
+  );
+}
@@ -0,0 +1,353 @@
+import { normalizeText } from "@/lib/dom-helpers";
+import { assignElementRef } from "@/lib/element-refs";
+
+const MAX_NODES = 320;
+const MAX_DEPTH = 12;
+const CHAT_UI_SELECTOR = "[data-chat-ui='true']";
+
+const INTERACTIVE_ROLES = new Set([
+  "button",
+  "checkbox",
+  "combobox",
+  "link",
+  "listbox",
+  "menuitem",
+  "option",
+  "radio",
+  "searchbox",
+  "slider",
+  "spinbutton",
+  "switch",
+  "tab",
+  "textbox",
+]);
+
+const REFERENCED_ROLES = new Set([
+  ...INTERACTIVE_ROLES,
+  "article",
+  "dialog",
+  "form",
+  "region",
+]);
+
+const NAME_FROM_CONTENT_ROLES = new Set([
+  "button",
+  "cell",
+  "columnheader",
+  "heading",
+  "link",
+  "listitem",
+  "menuitem",
+  "option",
+  "paragraph",
+  "rowheader",
+  "switch",
+  "tab",
+]);
+
+const LEAF_ROLES = new Set([...INTERACTIVE_ROLES, "img"]);
+
+// Text is read from these through their name. Only the links and buttons
+// inside them are walked, so inline controls still get a ref.
+const TEXT_ROLES = new Set(["heading", "paragraph"]);
+
+const INPUT_ROLES: Record<string, string> = {
+  button: "button",
+  checkbox: "checkbox",
+  image: "button",
+  number: "spinbutton",
+  radio: "radio",
+  range: "slider",
+  reset: "button",
+  search: "searchbox",
+  submit: "button",
+};
+
+const TAG_ROLES: Record<string, string> = {
+  article: "article",
+  aside: "complementary",
+  button: "button",
+  dialog: "dialog",
+  fieldset: "group",
+  li: "listitem",
+  main: "main",
+  nav: "navigation",
+  ol: "list",
+  option: "option",
+  p: "paragraph",
+  table: "table",
+  td: "cell",
+  textarea: "textbox",
+  th: "columnheader",
+  tr: "row",
+  ul: "list",
+};
+
+interface AccessibleNode {
+  role: string;
+  name: string;
+  states: string[];
+  ref: string;
+  children: AccessibleNode[];
+}
+
+function isHidden(element: HTMLElement): boolean {
+  if (
+    element.hidden ||
+    element.getAttribute("aria-hidden") === "true" ||
+    element.matches(CHAT_UI_SELECTOR)
+  ) {
+    return true;
+  }
+
+  const style = window.getComputedStyle(element);
+  return style.display === "none" || style.visibility === "hidden";
+}
+
+function textFromIds(ids: string): string {
+  return ids
+    .split(/\s+/)
+    .map((id) => document.getElementById(id)?.textContent ?? "")
+    .join(" ");
+}
+
+function computeRole(element: HTMLElement): string {
+  const explicitRole = element.getAttribute("role")?.trim().split(/\s+/)[0];
+  if (explicitRole) {
+    return explicitRole;
+  }
+
+  const tag = element.tagName.toLowerCase();
+
+  if (/^h[1-6]$/.test(tag)) {
+    return "heading";
+  }
+
+  if (tag === "a") {
+    return element.hasAttribute("href") ? "link" : "";
+  }
+
+  if (tag === "input") {
+    const type = (element.getAttribute("type") ?? "text").toLowerCase();
+    return type === "hidden" ? "" : INPUT_ROLES[type] ?? "textbox";
+  }
+
+  if (tag === "select") {
+    const select = element as HTMLSelectElement;
+    return select.multiple || select.size > 1 ? "listbox" : "combobox";
+  }
+
+  if (tag === "img") {
+    return element.getAttribute("alt") === "" ? "" : "img";
+  }
+
+  if (tag === "section" || tag === "form") {
+    const isNamed =
+      element.hasAttribute("aria-label") || element.hasAttribute("aria-labelledby");
+    if (tag === "form") {
+      return isNamed || element.id ? "form" : "";
+    }
+
+    return isNamed || element.id ? "region" : "";
+  }
+
+  if (tag === "header") {
+    return element.closest("article, aside, main, nav, section") ? "" : "banner";
+  }
+
+  if (tag === "footer") {
+    return element.closest("article, aside, main, nav, section") ? "" : "contentinfo";
+  }
+
+  return TAG_ROLES[tag] ?? "";
+}
+
+function computeName(element: HTMLElement, role: string): string {
+  const labelledBy = element.getAttribute("aria-labelledby");
+  if (labelledBy) {
+    const labelled = textFromIds(labelledBy);
+    if (labelled.trim()) {
+      return labelled;
+    }
+  }
+
+  const ariaLabel = element.getAttribute("aria-label");
+  if (ariaLabel?.trim()) {
+    return ariaLabel;
+  }
+
+  if (
+    element instanceof HTMLInputElement ||
+    element instanceof HTMLTextAreaElement ||
+    element instanceof HTMLSelectElement
+  ) {
+    const labelText = Array.from(element.labels ?? [])
+      .map((label) => label.textContent ?? "")
+      .join(" ");
+    if (labelText.trim()) {
+      return labelText;
+    }
+
+    if (element instanceof HTMLInputElement && ["submit", "reset", "button"].includes(element.type)) {
+      return element.value;
+    }
+
+    return element.getAttribute("placeholder") ?? element.title;
+  }
+
+  if (element instanceof HTMLImageElement) {
+    return element.alt || element.title;
+  }
+
+  if (role === "region" || role === "form" || role === "article") {
+    const heading = element.querySelector("h1, h2, h3, h4, h5, h6, legend");
+    return heading?.textContent ?? element.title;
+  }
+
+  if (role === "group") {
+    return element.querySelector("legend")?.textContent ?? element.title;
+  }
+
+  if (NAME_FROM_CONTENT_ROLES.has(role)) {
+    return element.textContent ?? "";
+  }
+
+  return element.title;
+}
+
+function readState(element: HTMLElement, attribute: string): string | null {
+  const value = element.getAttribute(attribute);
+  return value === null ? null : value.toLowerCase();
+}
+
+function computeStates(element: HTMLElement, role: string): string[] {
+  const states: string[] = [];
+
+  if (role === "heading") {
+    const level =
+      element.getAttribute("aria-level") ?? element.tagName.toLowerCase().replace("h", "");
+    if (/^\d$/.test(level)) {
+      states.push(`level=${level}`);
+    }
+  }
+
+  const expanded = readState(element, "aria-expanded");
+  if (expanded === "true" || expanded === "false") {
+    states.push(expanded === "true" ? "expanded" : "collapsed");
+  }
+
+  const ariaChecked = readState(element, "aria-checked");
+  if (element instanceof HTMLInputElement && (role === "checkbox" || role === "radio")) {
+    states.push(element.checked ? "checked" : "unchecked");
+  } else if (ariaChecked === "true" || ariaChecked === "false" || ariaChecked === "mixed") {
+    states.push(ariaChecked === "true" ? "checked" : ariaChecked === "mixed" ? "mixed" : "unchecked");
+  }
+
+  if (readState(element, "aria-selected") === "true") {
+    states.push("selected");
+  }
+
+  if (
+    readState(element, "aria-disabled") === "true" ||
+    (element.matches(":disabled") && INTERACTIVE_ROLES.has(role))
+  ) {
+    states.push("disabled");
+  }
+
+  const isFormControl =
+    element instanceof HTMLInputElement ||
+    element instanceof HTMLTextAreaElement ||
+    element instanceof HTMLSelectElement;
+
+  if (
+    readState(element, "aria-required") === "true" ||
+    (isFormControl && element.required)
+  ) {
+    states.push("required");
+  }
+
+  const hasValue = isFormControl && element.value !== "";
+  if (
+    readState(element, "aria-invalid") === "true" ||
+    (isFormControl && hasValue && !element.validity.valid)
+  ) {
+    states.push("invalid");
+  }
+
+  return states;
+}
+
+function childElements(element: Element): HTMLElement[] {
+  return Array.from(element.children).filter(
+    (child): child is HTMLElement => child instanceof HTMLElement
+  );
+}
+
+function interactiveNodes(nodes: AccessibleNode[]): AccessibleNode[] {
+  return nodes.flatMap((node) =>
+    INTERACTIVE_ROLES.has(node.role) ? [node] : interactiveNodes(node.children)
+  );
+}
+
+function walk(
+  element: HTMLElement,
+  depth: number,
+  budget: { remaining: number }
+): AccessibleNode[] {
+  if (budget.remaining <= 0 || depth > MAX_DEPTH || isHidden(element)) {
+    return [];
+  }
+
+  const role = computeRole(element);
+  const childNodes = (): AccessibleNode[] =>
+    childElements(element).flatMap((child) =>
+      walk(child, role ? depth + 1 : depth, budget)
+    );
+
+  if (!role || role === "presentation" || role === "none") {
+    return childNodes();
+  }
+
+  budget.remaining -= 1;
+
+  const node: AccessibleNode = {
+    role,
+    name: normalizeText(computeName(element, role), role === "paragraph" ? 160 : 80),
+    states: computeStates(element, role),
+    ref: REFERENCED_ROLES.has(role) ? assignElementRef(element) : "",
+    children: [],
+  };
+
+  if (TEXT_ROLES.has(role)) {
+    node.children = interactiveNodes(childNodes());
+  } else if (!LEAF_ROLES.has(role)) {
+    node.children = childNodes();
+  }
+
+  if (role === "paragraph" && !node.name && node.children.length === 0) {
+    return [];
+  }
+
+  return [node];
+}
+
+function formatNode(node: AccessibleNode, depth: number): string[] {
+  const name = node.name ? ` "${node.name.replace(/"/g, "'")}"` : "";
+  const states = node.states.length > 0 ? ` ${node.states.join(" ")}` : "";
+  const ref = node.ref ? ` [ref=${node.ref}]` : "";
+  const line = `${"  ".repeat(depth)}- ${node.role}${name}${states}${ref}`;
+
+  return [line, ...node.children.flatMap((child) => formatNode(child, depth + 1))];
+}
+
+export function buildAccessibilityTree(root: HTMLElement): string {
+  const budget = { remaining: MAX_NODES };
+  const nodes = childElements(root).flatMap((child) => walk(child, 0, budget));
+
+  const lines = nodes.flatMap((node) => formatNode(node, 0));
+  if (budget.remaining <= 0) {
+    lines.push(`- note "Tree truncated after ${MAX_NODES} nodes."`);
+  }
+
+  return lines.join("\n");
+}
@@ -0,0 +1,330 @@
+import type { ChatMessage } from "@/lib/types";
+
+const STORAGE_KEY = "co-browse-threads";
+const MAX_THREADS = 20;
+const MAX_TITLE_LENGTH = 60;
+export const THREAD_SCHEMA_VERSION = 2;
+export const MAX_THREAD_MESSAGES = 100;
+
+export type FlowStatus =
+  | "queued"
+  | "awaiting"
+  | "running"
+  | "previewed"
+  | "success"
+  | "failed"
+  | "rejected"
+  | "cancelled";
+
+export interface FlowItem {
+  id: string;
+  label: string;
+  detail: string;
+  status: FlowStatus;
+}
+
+export interface ChatThread {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  messages: ChatMessage[];
+  flowItems: FlowItem[];
+  sessionId: string | null;
+}
+
+export type ThreadContents = Pick<ChatThread, "messages" | "flowItems" | "sessionId">;
+
+interface StoredThreads {
+  version: number;
+  activeThreadId: string | null;
+  threads: ChatThread[];
+}
+
+type StoredData = Record<string, unknown>;
+
+// MIGRATIONS[n] upgrades stored data from schema version n to n + 1. Bump
+// THREAD_SCHEMA_VERSION and add an entry whenever ChatMessage or FlowItem
+// changes shape, so threads saved by older builds still load.
+const MIGRATIONS: Record<number, (data: StoredData) => StoredData> = {
+  // Version 2 links each thread to its server session.
+  1: (data) => ({
+    ...data,
+    threads: Array.isArray(data.threads)
+      ? data.threads.map((thread) => (isRecord(thread) ? { ...thread, sessionId: null } : thread))
+      : [],
+  }),
+};
+
+const FLOW_STATUSES: FlowStatus[] = [
+  "queued",
+  "awaiting",
+  "running",
+  "previewed",
+  "success",
+  "failed",
+  "rejected",
+  "cancelled",
+];
+const INTERRUPTED_STATUSES: FlowStatus[] = ["queued", "awaiting", "running"];
+
+let threads: ChatThread[] = [];
+let activeThreadId: string | null = null;
+let loaded = false;
+const listeners = new Set<() => void>();
+
+function isRecord(value: unknown): value is StoredData {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isChatMessage(value: unknown): value is ChatMessage {
+  return (
+    isRecord(value) &&
+    (value.role === "user" || value.role === "assistant" || value.role === "tool") &&
+    typeof value.content === "string" &&
+    typeof value.createdAt === "string"
+  );
+}
+
+function toFlowItem(value: unknown): FlowItem | null {
+  if (
+    !isRecord(value) ||
+    typeof value.id !== "string" ||
+    typeof value.label !== "string" ||
+    typeof value.detail !== "string" ||
+    !FLOW_STATUSES.includes(value.status as FlowStatus)
+  ) {
+    return null;
+  }
+
+  // A reload ends any run that was in progress, so nothing is still pending.
+  const status = value.status as FlowStatus;
+  const item: FlowItem = { id: value.id, label: value.label, detail: value.detail, status };
+  return INTERRUPTED_STATUSES.includes(status)
+    ? { ...item, detail: "Interrupted by a page reload.", status: "cancelled" }
+    : item;
+}
+
+function trimMessages(messages: ChatMessage[]): ChatMessage[] {
+  return messages.length > MAX_THREAD_MESSAGES ? messages.slice(-MAX_THREAD_MESSAGES) : messages;
+}
+
+function toThread(value: unknown): ChatThread | null {
+  if (
+    !isRecord(value) ||
+    typeof value.id !== "string" ||
+    typeof value.title !== "string" ||
+    typeof value.createdAt !== "string" ||
+    typeof value.updatedAt !== "string" ||
+    !Array.isArray(value.messages) ||
+    !Array.isArray(value.flowItems) ||
+    (value.sessionId !== null && typeof value.sessionId !== "string")
+  ) {
+    return null;
+  }
+
+  return {
+    id: value.id,
+    title: value.title,
+    createdAt: value.createdAt,
+    updatedAt: value.updatedAt,
+    messages: trimMessages(value.messages.filter(isChatMessage)),
+    flowItems: value.flowItems
+      .map(toFlowItem)
+      .filter((item): item is FlowItem => item !== null),
+    sessionId: value.sessionId,
+  };
+}
+
+function migrate(data: StoredData): StoredData | null {
+  let current = data;
+  let version = typeof current.version === "number" ? current.version : 0;
+
+  while (version < THREAD_SCHEMA_VERSION) {
+    const upgrade = MIGRATIONS[version];
+    if (!upgrade) {
+      return null;
+    }
+
+    current = { ...upgrade(current), version: version + 1 };
+    version += 1;
+  }
+
+  return version === THREAD_SCHEMA_VERSION ? current : null;
+}
+
+function readStorage(): StoredThreads | null {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    const parsed: unknown = raw ? JSON.parse(raw) : null;
+    const data = isRecord(parsed) ? migrate(parsed) : null;
+    if (!data || !Array.isArray(data.threads)) {
+      return null;
+    }
+
+    return {
+      version: THREAD_SCHEMA_VERSION,
+      activeThreadId: typeof data.activeThreadId === "string" ? data.activeThreadId : null,
+      threads: data.threads
+        .map(toThread)
+        .filter((thread): thread is ChatThread => thread !== null),
+    };
+  } catch {
+    return null;
+  }
+}
+
+function writeStorage(): void {
+  const stored: StoredThreads = {
+    version: THREAD_SCHEMA_VERSION,
+    activeThreadId,
+    threads,
+  };
+
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  } catch {
+    // Storage can be full or disabled; the chat keeps working in memory.
+  }
+}
+
+function ensureLoaded(): void {
+  if (loaded || typeof window === "undefined") {
+    return;
+  }
+
+  loaded = true;
+  const stored = readStorage();
+  if (stored) {
+    threads = stored.threads;
+    activeThreadId = stored.activeThreadId;
+  }
+}
+
+function commit(next: ChatThread[]): void {
+  threads = [...next]
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+    .slice(0, MAX_THREADS);
+  if (!threads.some((thread) => thread.id === activeThreadId)) {
+    activeThreadId = threads[0]?.id ?? null;
+  }
+
+  writeStorage();
+  listeners.forEach((listener) => listener());
+}
+
+function createThreadId(): string {
+  return typeof crypto !== "undefined" && typeof crypto.randomUUID === "function"
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+}
+
+export function describeThread(thread: ChatThread): string {
+  if (thread.title) {
+    return thread.title;
+  }
+
+  const firstQuestion = thread.messages.find((message) => message.role === "user");
+  if (!firstQuestion) {
+    return "New conversation";
+  }
+
+  const text = firstQuestion.content.replace(/\s+/g, " ").trim();
+  return text.length > MAX_TITLE_LENGTH ? `${text.slice(0, MAX_TITLE_LENGTH - 3)}...` : text;
+}
+
+export function createThread(contents: ThreadContents): ChatThread {
+  ensureLoaded();
+
+  const now = new Date().toISOString();
+  const thread: ChatThread = {
+    id: createThreadId(),
+    title: "",
+    createdAt: now,
+    updatedAt: now,
+    messages: trimMessages(contents.messages),
+    flowItems: contents.flowItems,
+    sessionId: contents.sessionId,
+  };
+
+  activeThreadId = thread.id;
+  commit([thread, ...threads]);
+  return thread;
+}
+
+// Opens the thread that was active before the reload, or starts a new one.
+export function restoreActiveThread(initial: ThreadContents): ChatThread {
+  ensureLoaded();
+  return threads.find((thread) => thread.id === activeThreadId) ?? createThread(initial);
+}
+
+export function openThread(id: string): ChatThread | null {
+  ensureLoaded();
+
+  const thread = threads.find((item) => item.id === id) ?? null;
+  if (thread && activeThreadId !== id) {
+    activeThreadId = id;
+    writeStorage();
+    listeners.forEach((listener) => listener());
+  }
+
+  return thread;
+}
+
+export function saveThread(id: string, contents: ThreadContents): void {
+  ensureLoaded();
+
+  const thread = threads.find((item) => item.id === id);
+  if (
+    !thread ||
+    (thread.messages === contents.messages &&
+      thread.flowItems === contents.flowItems &&
+      thread.sessionId === contents.sessionId)
+  ) {
+    return;
+  }
+
+  const changed = thread.messages !== contents.messages;
+  commit(
+    threads.map((item) =>
+      item.id === id
+        ? {
+            ...item,
+            messages: trimMessages(contents.messages),
+            flowItems: contents.flowItems,
+            sessionId: contents.sessionId,
+            updatedAt: changed ? new Date().toISOString() : item.updatedAt,
+          }
+        : item
+    )
+  );
+}
+
+export function renameThread(id: string, title: string): void {
+  ensureLoaded();
+  commit(
+    threads.map((thread) =>
+      thread.id === id ? { ...thread, title: title.trim().slice(0, MAX_TITLE_LENGTH) } : thread
+    )
+  );
+}
+
+export function deleteThread(id: string): void {
+  ensureLoaded();
+  commit(threads.filter((thread) => thread.id !== id));
+}
+
+export function getThreads(): ChatThread[] {
+  return threads;
+}
+
+export function getActiveThreadId(): string | null {
+  return activeThreadId;
+}
+
+export function subscribeThreads(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,162 @@
+import type { ChatMessage, MemoryFacts, ToolCall } from "@/lib/types";
+
+const MAX_INTERESTS = 8;
+const MAX_FACT_CHARS = 80;
+export const MAX_SUMMARY_CHARS = 1200;
+
+export interface ConversationMemory {
+  summary: string;
+  // Number of leading session messages already folded into the summary.
+  summarizedCount: number;
+  facts: MemoryFacts;
+}
+
+// Capitalized at the start of a sentence, these still are not names or
+// companies ("Call me Back later", "I'm with You on that").
+const COMMON_WORDS = new Set([
+  "back",
+  "here",
+  "home",
+  "interested",
+  "just",
+  "looking",
+  "not",
+  "now",
+  "sure",
+  "the",
+  "there",
+  "work",
+  "you",
+]);
+
+// Names and companies must be capitalized, so the patterns are case-sensitive
+// and spell out both cases of the lead-in words.
+const EXPLICIT_NAME_PATTERN =
+  /\b(?:[Mm]y name is|[Nn]ame's|[Cc]all me)\s+([A-Z][a-z'-]+(?:\s+[A-Z][a-z'-]+)?)\b/;
+const INTRO_NAME_PATTERN = /\b[Ii](?: am|'m)\s+([A-Z][a-z'-]+(?:\s+[A-Z][a-z'-]+)?)\b/;
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/;
+const COMPANY_PATTERN =
+  /\b(?:[Ii] work (?:at|for)|[Ii]'m (?:at|with)|[Ii] am (?:at|with)|[Mm]y company is|[Oo]ur company is)\s+([A-Z][\w&.-]*(?:\s+[A-Z][\w&.-]*){0,3})/;
+const ROLE_PATTERN =
+  /\bi(?:'m| am) an? ((?:[a-z-]+\s){0,2}(?:engineer|developer|designer|manager|recruiter|founder|cto|ceo|student|consultant))\b/i;
+const INTEREST_PATTERN =
+  /\b(?:interested in|curious about|looking for|want to know about|keen on)\s+([^.?!,;]{3,60})/gi;
+
+export function createEmptyMemory(): ConversationMemory {
+  return { summary: "", summarizedCount: 0, facts: {} };
+}
+
+function clip(value: string): string {
+  return value.replace(/\s+/g, " ").trim().slice(0, MAX_FACT_CHARS);
+}
+
+function isCommonWord(word: string | undefined): boolean {
+  return COMMON_WORDS.has(word?.toLowerCase() ?? "");
+}
+
+export function extractFacts(text: string): MemoryFacts {
+  const facts: MemoryFacts = {};
+
+  const name = EXPLICIT_NAME_PATTERN.exec(text)?.[1] ?? INTRO_NAME_PATTERN.exec(text)?.[1];
+  const [firstName, surname] = name?.split(/\s+/) ?? [];
+  if (name && !isCommonWord(firstName)) {
+    facts.name = clip(surname && !isCommonWord(surname) ? name : firstName);
+  }
+
+  const email = EMAIL_PATTERN.exec(text)?.[0];
+  if (email) {
+    facts.email = clip(email);
+  }
+
+  const company = COMPANY_PATTERN.exec(text)?.[1];
+  if (company && !isCommonWord(company.split(/\s+/)[0])) {
+    facts.company = clip(company);
+  }
+
+  const role = ROLE_PATTERN.exec(text)?.[1];
+  if (role) {
+    facts.role = clip(role.toLowerCase());
+  }
+
+  const interests = Array.from(text.matchAll(INTEREST_PATTERN), (match) => clip(match[1]));
+  if (interests.length > 0) {
+    facts.interests = interests;
+  }
+
+  return facts;
+}
+
+// Values the user had the assistant type into the contact form are facts too.
+export function extractFormFacts(call: ToolCall): MemoryFacts {
+  if (call.name !== "fill_input") {
+    return {};
+  }
+
+  const values: Record<string, unknown> =
+    typeof call.args.values === "object" && call.args.values !== null
+      ? (call.args.values as Record<string, unknown>)
+      : typeof call.args.fieldName === "string"
+        ? { [call.args.fieldName.toLowerCase()]: call.args.value }
+        : {};
+
+  const facts: MemoryFacts = {};
+  if (typeof values.name === "string" && values.name.trim()) {
+    facts.name = clip(values.name);
+  }
+  if (typeof values.email === "string" && EMAIL_PATTERN.test(values.email)) {
+    facts.email = clip(values.email);
+  }
+
+  return facts;
+}
+
+export function rememberFacts(memory: ConversationMemory, facts: MemoryFacts): void {
+  const { interests, ...single } = facts;
+  memory.facts = { ...memory.facts, ...single };
+
+  if (interests?.length) {
+    const merged = [...(memory.facts.interests ?? [])];
+    for (const interest of interests) {
+      if (!merged.some((item) => item.toLowerCase() === interest.toLowerCase())) {
+        merged.push(interest);
+      }
+    }
+    memory.facts.interests = merged.slice(-MAX_INTERESTS);
+  }
+}
+
+export function describeFacts(facts: MemoryFacts): string[] {
+  return [
+    facts.name ? `name: ${facts.name}` : "",
+    facts.email ? `email: ${facts.email}` : "",
+    facts.company ? `company: ${facts.company}` : "",
+    facts.role ? `role: ${facts.role}` : "",
+    facts.interests?.length ? `interests: ${facts.interests.join("; ")}` : "",
+  ].filter(Boolean);
+}
+
+export function describeMemory(memory: ConversationMemory): string {
+  const facts = describeFacts(memory.facts);
+  const lines = [
+    ...(facts.length > 0 ? ["Known facts about the user:", ...facts.map((fact) => `- ${fact}`)] : []),
+    ...(memory.summary ? ["Summary of earlier conversation:", memory.summary] : []),
+  ];
+
+  return lines.join("\n");
+}
+
+export function formatMessagesForSummary(messages: ChatMessage[]): string {
+  return messages
+    .map((message) => {
+      const text = message.content.replace(/\s+/g, " ").trim().slice(0, 300);
+      switch (message.role) {
+        case "user":
+          return `User: ${text}`;
+        case "assistant":
+          return `Assistant: ${text}`;
+        default:
+          return `Action ${text}`;
+      }
+    })
+    .join("\n");
+}
@@ -0,0 +1,105 @@
+import type { ViewportPosition } from "@/lib/types";
+
+const MAX_TEXT = 260;
+
+export function normalizeText(value: string, maxLength = MAX_TEXT): string {
+  const trimmed = value.replace(/\s+/g, " ").trim();
+  if (trimmed.length <= maxLength) {
+    return trimmed;
+  }
+
+  return `${trimmed.slice(0, maxLength - 3)}...`;
+}
+
+export function isVisible(element: Element): boolean {
+  const htmlElement = element as HTMLElement;
+  const style = window.getComputedStyle(htmlElement);
+  const rect = htmlElement.getBoundingClientRect();
+
+  return (
+    style.display !== "none" &&
+    style.visibility !== "hidden" &&
+    style.opacity !== "0" &&
+    rect.width > 0 &&
+    rect.height > 0
+  );
+}
+
+export function getViewportPosition(element: Element): ViewportPosition {
+  const rect = element.getBoundingClientRect();
+
+  if (rect.bottom <= 0) {
+    return "above";
+  }
+
+  if (rect.top >= window.innerHeight) {
+    return "below";
+  }
+
+  return "in_viewport";
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
+}
+
+function escapeCssIdentifier(value: string): string {
+  if (typeof CSS !== "undefined" && typeof CSS.escape === "function") {
+    return CSS.escape(value);
+  }
+
+  return value.replace(/[^a-zA-Z0-9_-]/g, "\\$&");
+}
+
+export function buildSelector(element: Element): string {
+  const htmlElement = element as HTMLElement;
+  const tag = htmlElement.tagName.toLowerCase();
+
+  if (htmlElement.id) {
+    return `#${escapeCssIdentifier(htmlElement.id)}`;
+  }
+
+  const name = htmlElement.getAttribute("name");
+  if (name) {
+    const byName = `${tag}[name="${escapeAttribute(name)}"]`;
+    if (document.querySelectorAll(byName).length === 1) {
+      return byName;
+    }
+  }
+
+  const href = htmlElement.getAttribute("href");
+  if (href && tag === "a") {
+    const byHref = `a[href="${escapeAttribute(href)}"]`;
+    if (document.querySelectorAll(byHref).length === 1) {
+      return byHref;
+    }
+  }
+
+  const path: string[] = [];
+  let current: Element | null = htmlElement;
+
+  while (current && path.length < 4 && current !== document.body) {
+    const nodeTag = current.tagName.toLowerCase();
+    const currentId = (current as HTMLElement).id;
+
+    if (currentId) {
+      path.unshift(`#${escapeCssIdentifier(currentId)}`);
+      break;
+    }
+
+    const parentElement: Element | null = current.parentElement;
+    if (!parentElement) {
+      path.unshift(nodeTag);
+      break;
+    }
+
+    const siblings = Array.from(parentElement.children).filter(
+      (sibling) => sibling.tagName === current?.tagName
+    );
+    const nth = siblings.indexOf(current) + 1;
+    path.unshift(`${nodeTag}:nth-of-type(${nth})`);
+    current = parentElement;
+  }
+
+  return path.join(" > ");
+}
@@ -0,0 +1,45 @@
+export type ElementRefLookup =
+  | { status: "found"; element: HTMLElement }
+  | { status: "stale"; ref: string }
+  | { status: "unknown"; ref: string };
+
+const elementRefs = new WeakMap<Element, string>();
+const refRegistry = new Map<string, HTMLElement>();
+const retiredRefs = new Set<string>();
+let nextRefId = 1;
+
+export function assignElementRef(element: HTMLElement): string {
+  let ref = elementRefs.get(element);
+  if (!ref) {
+    ref = `e${nextRefId}`;
+    nextRefId += 1;
+    elementRefs.set(element, ref);
+  }
+
+  refRegistry.set(ref, element);
+  return ref;
+}
+
+export function retireDetachedRefs(): void {
+  for (const [ref, element] of refRegistry) {
+    if (!element.isConnected) {
+      refRegistry.delete(ref);
+      retiredRefs.add(ref);
+    }
+  }
+}
+
+export function resolveElementRef(ref: string): ElementRefLookup {
+  const normalizedRef = ref.trim().toLowerCase();
+  const element = refRegistry.get(normalizedRef);
+
+  if (element && element.isConnected) {
+    return { status: "found", element };
+  }
+
+  if (element || retiredRefs.has(normalizedRef)) {
+    return { status: "stale", ref: normalizedRef };
+  }
+
+  return { status: "unknown", ref: normalizedRef };
+}
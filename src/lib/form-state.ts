@@ -0,0 +1,168 @@
+import { isVisible, normalizeText } from "@/lib/dom-helpers";
+import { assignElementRef } from "@/lib/element-refs";
+import type { FormFieldState, FormSummary } from "@/lib/types";
+
+type FormControl = HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement;
+
+const REDACTED_VALUE = "[redacted]";
+const SENSITIVE_NAME_PATTERN = /pass(word)?|secret|token|otp|ssn|cvv|cvc|card/i;
+const CONTROL_SELECTOR = "input, textarea, select";
+const MAX_OPTIONS = 20;
+
+function isFormControl(element: Element): element is FormControl {
+  return (
+    element instanceof HTMLInputElement ||
+    element instanceof HTMLTextAreaElement ||
+    element instanceof HTMLSelectElement
+  );
+}
+
+function isSensitive(control: FormControl): boolean {
+  if (control instanceof HTMLInputElement && control.type === "password") {
+    return true;
+  }
+
+  const autocomplete = control.getAttribute("autocomplete") ?? "";
+  if (/^cc-|one-time-code|password/.test(autocomplete)) {
+    return true;
+  }
+
+  return SENSITIVE_NAME_PATTERN.test(`${control.name} ${control.id}`);
+}
+
+function readLabel(control: FormControl): string {
+  const labelText = Array.from(control.labels ?? [])
+    .map((label) => label.textContent ?? "")
+    .join(" ");
+
+  return normalizeText(
+    labelText ||
+      control.getAttribute("aria-label") ||
+      control.getAttribute("placeholder") ||
+      control.name ||
+      control.id,
+    80
+  );
+}
+
+function readValue(control: FormControl): string {
+  if (
+    control instanceof HTMLInputElement &&
+    (control.type === "checkbox" || control.type === "radio")
+  ) {
+    return control.checked ? "checked" : "unchecked";
+  }
+
+  if (control instanceof HTMLSelectElement) {
+    return Array.from(control.selectedOptions)
+      .map((option) => option.textContent ?? option.value)
+      .join(", ");
+  }
+
+  return control.value;
+}
+
+function fieldKey(control: FormControl): string {
+  return control.name || control.id || readLabel(control);
+}
+
+function isSkipped(control: FormControl): boolean {
+  return (
+    control instanceof HTMLInputElement &&
+    ["hidden", "submit", "reset", "button", "image"].includes(control.type)
+  );
+}
+
+export function readFieldState(element: Element): FormFieldState | undefined {
+  if (!isFormControl(element) || isSkipped(element)) {
+    return undefined;
+  }
+
+  const value = readValue(element);
+  const redacted = isSensitive(element) && value !== "";
+  const { validity } = element;
+  const invalid = !validity.valid && !validity.valueMissing;
+
+  const state: FormFieldState = {
+    label: readLabel(element),
+    value: redacted ? REDACTED_VALUE : normalizeText(value, 120),
+    redacted,
+    required: element.required,
+    invalid,
+    validationMessage: validity.valid ? "" : normalizeText(element.validationMessage, 120),
+  };
+
+  if (element instanceof HTMLSelectElement) {
+    state.options = Array.from(element.options)
+      .slice(0, MAX_OPTIONS)
+      .map((option) => normalizeText(option.textContent || option.value, 60));
+  }
+
+  return state;
+}
+
+export function readFullFieldValue(element: Element): string | undefined {
+  if (!isFormControl(element) || isSkipped(element)) {
+    return undefined;
+  }
+
+  const value = readValue(element);
+  return isSensitive(element) && value !== "" ? REDACTED_VALUE : value;
+}
+
+export function listInvalidFields(form: HTMLFormElement): string[] {
+  return Array.from(form.querySelectorAll(CONTROL_SELECTOR))
+    .filter(
+      (element): element is FormControl =>
+        isFormControl(element) && !isSkipped(element) && !element.checkValidity()
+    )
+    .map(
+      (control) =>
+        `${fieldKey(control)}: ${normalizeText(control.validationMessage, 120) || "invalid value"}`
+    );
+}
+
+export function collectForms(root: ParentNode): FormSummary[] {
+  const forms = Array.from(root.querySelectorAll<HTMLFormElement>("form")).filter(isVisible);
+
+  return forms.map((form) => {
+    const summary: FormSummary = {
+      ref: assignElementRef(form),
+      id: form.id,
+      name: normalizeText(
+        form.getAttribute("aria-label") ??
+          form.querySelector("legend, h1, h2, h3")?.textContent ??
+          form.getAttribute("name") ??
+          form.id,
+        80
+      ),
+      filled: [],
+      empty: [],
+      missingRequired: [],
+      invalid: [],
+    };
+
+    const controls = Array.from(form.querySelectorAll(CONTROL_SELECTOR)).filter(
+      (element): element is FormControl =>
+        isFormControl(element) && !isSkipped(element) && isVisible(element)
+    );
+
+    for (const control of controls) {
+      const key = fieldKey(control);
+      const value = readValue(control);
+      const hasValue = value !== "" && value !== "unchecked";
+
+      (hasValue ? summary.filled : summary.empty).push(key);
+
+      if (control.validity.valueMissing) {
+        summary.missingRequired.push(key);
+      } else if (!control.validity.valid) {
+        summary.invalid.push(
+          `${key}: ${normalizeText(control.validationMessage, 120) || "invalid value"}`
+        );
+      }
+    }
+
+    return summary;
+  });
+}
@@ -0,0 +1,89 @@
+const TOUR_TARGET_CLASS = "co-tour-target";
+
+export interface TourStop {
+  element: HTMLElement;
+  caption: string;
+  label: string;
+}
+
+export interface TourState {
+  toolCallId: string;
+  stops: TourStop[];
+  index: number;
+  autoAdvanceMs: number | null;
+}
+
+let tour: TourState | null = null;
+const listeners = new Set<() => void>();
+
+function update(next: TourState | null): void {
+  const previous = tour?.stops[tour.index]?.element;
+  previous?.classList.remove(TOUR_TARGET_CLASS);
+
+  tour = next;
+
+  const current = tour?.stops[tour.index]?.element;
+  if (current) {
+    current.classList.add(TOUR_TARGET_CLASS);
+    current.scrollIntoView({ behavior: "smooth", block: "center" });
+  }
+
+  listeners.forEach((listener) => listener());
+}
+
+export function startTour(
+  toolCallId: string,
+  stops: TourStop[],
+  autoAdvanceMs: number | null
+): void {
+  update(stops.length > 0 ? { toolCallId, stops, index: 0, autoAdvanceMs } : null);
+}
+
+export function goToStop(index: number): void {
+  if (!tour) {
+    return;
+  }
+
+  const stops = tour.stops.filter((stop) => stop.element.isConnected);
+  if (stops.length === 0) {
+    update(null);
+    return;
+  }
+
+  update({ ...tour, stops, index: Math.min(stops.length - 1, Math.max(0, index)) });
+}
+
+export function nextStop(): void {
+  if (tour) {
+    goToStop(tour.index + 1);
+  }
+}
+
+export function previousStop(): void {
+  if (tour) {
+    goToStop(tour.index - 1);
+  }
+}
+
+export function pauseTour(): void {
+  if (tour?.autoAdvanceMs) {
+    update({ ...tour, autoAdvanceMs: null });
+  }
+}
+
+export function exitTour(): void {
+  if (tour) {
+    update(null);
+  }
+}
+
+export function getTour(): TourState | null {
+  return tour;
+}
+
+export function subscribeTour(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
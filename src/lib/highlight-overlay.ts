@@ -0,0 +1,87 @@
+export type HighlightIntent = "info" | "warning" | "success";
+
+export const HIGHLIGHT_INTENTS: HighlightIntent[] = ["info", "warning", "success"];
+
+export interface Annotation {
+  id: string;
+  element: HTMLElement;
+  label: string;
+  intent: HighlightIntent;
+  persistent: boolean;
+}
+
+export type AnnotationInput = Omit<Annotation, "id" | "persistent">;
+
+let annotations: Annotation[] = [];
+let nextAnnotationId = 1;
+const timers = new Map<string, number>();
+const listeners = new Set<() => void>();
+
+function notify(): void {
+  listeners.forEach((listener) => listener());
+}
+
+function clearTimer(id: string): void {
+  const timer = timers.get(id);
+  if (timer !== undefined) {
+    window.clearTimeout(timer);
+    timers.delete(id);
+  }
+}
+
+export function showAnnotations(items: AnnotationInput[], durationMs: number | null): void {
+  const elements = new Set(items.map((item) => item.element));
+  const replaced = annotations.filter((annotation) => elements.has(annotation.element));
+  replaced.forEach((annotation) => clearTimer(annotation.id));
+
+  const added = items.map((item) => ({
+    ...item,
+    id: `a${nextAnnotationId++}`,
+    persistent: durationMs === null,
+  }));
+
+  if (durationMs !== null) {
+    for (const annotation of added) {
+      timers.set(
+        annotation.id,
+        window.setTimeout(() => dismissAnnotation(annotation.id), durationMs)
+      );
+    }
+  }
+
+  annotations = [
+    ...annotations.filter((annotation) => !elements.has(annotation.element)),
+    ...added,
+  ];
+  notify();
+}
+
+export function dismissAnnotation(id: string): void {
+  clearTimer(id);
+  const remaining = annotations.filter((annotation) => annotation.id !== id);
+  if (remaining.length !== annotations.length) {
+    annotations = remaining;
+    notify();
+  }
+}
+
+export function clearAnnotations(): void {
+  if (annotations.length === 0) {
+    return;
+  }
+
+  annotations.forEach((annotation) => clearTimer(annotation.id));
+  annotations = [];
+  notify();
+}
+
+export function getAnnotations(): Annotation[] {
+  return annotations;
+}
+
+export function subscribeAnnotations(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
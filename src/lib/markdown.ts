@@ -0,0 +1,165 @@
+// A small markdown subset for chat messages. It parses to plain data, never
+// to HTML, so model output cannot inject markup; React escapes all text.
+
+export type MarkdownInline =
+  | { type: "text"; text: string }
+  | { type: "strong"; children: MarkdownInline[] }
+  | { type: "emphasis"; children: MarkdownInline[] }
+  | { type: "code"; text: string }
+  | { type: "link"; href: string; children: MarkdownInline[] }
+  | { type: "jump"; sectionId: string; children: MarkdownInline[] };
+
+export type MarkdownBlock =
+  | { type: "paragraph"; children: MarkdownInline[] }
+  | { type: "heading"; children: MarkdownInline[] }
+  | { type: "list"; ordered: boolean; items: MarkdownInline[][] }
+  | { type: "quote"; children: MarkdownInline[] }
+  | { type: "code_block"; text: string };
+
+const SAFE_PROTOCOLS = ["http:", "https:", "mailto:"];
+const SECTION_ID_PATTERN = /^[A-Za-z][\w-]*$/;
+
+const FENCE_PATTERN = /^\s*```/;
+const HEADING_PATTERN = /^\s*#{1,6}\s+(.*)$/;
+const BULLET_PATTERN = /^\s*[-*+]\s+(.*)$/;
+const ORDERED_PATTERN = /^\s*\d{1,3}[.)]\s+(.*)$/;
+const QUOTE_PATTERN = /^\s*>\s?(.*)$/;
+
+// Underscore emphasis needs word boundaries so tool names like
+// navigate_to_section stay intact.
+const INLINE_PATTERN =
+  /`([^`\n]+)`|\[([^\]\n]+)\]\(((?:[^()\s]|\([^()\s]*\))+)\)|\*\*(.+?)\*\*|(?<!\w)__(.+?)__(?!\w)|\*([^*\s](?:[^*]*[^*\s])?)\*|(?<!\w)_([^_\s](?:[^_]*[^_\s])?)_(?!\w)/;
+
+type LinkTarget = { type: "link"; href: string } | { type: "jump"; sectionId: string };
+
+// Only web and mail links are kept. "#section" links become jump links that
+// scroll this page instead of navigating away.
+export function toLinkTarget(rawHref: string): LinkTarget | null {
+  const href = rawHref.trim();
+  if (href.startsWith("#")) {
+    const sectionId = href.slice(1);
+    return SECTION_ID_PATTERN.test(sectionId) ? { type: "jump", sectionId } : null;
+  }
+
+  try {
+    const url = new URL(href);
+    return SAFE_PROTOCOLS.includes(url.protocol) ? { type: "link", href: url.href } : null;
+  } catch {
+    return null;
+  }
+}
+
+export function parseInline(text: string): MarkdownInline[] {
+  const nodes: MarkdownInline[] = [];
+  let rest = text;
+
+  while (rest) {
+    const match = INLINE_PATTERN.exec(rest);
+    if (!match) {
+      nodes.push({ type: "text", text: rest });
+      break;
+    }
+
+    if (match.index > 0) {
+      nodes.push({ type: "text", text: rest.slice(0, match.index) });
+    }
+
+    const [whole, code, linkText, href, strong, strongUnderscore, emphasis, emphasisUnderscore] =
+      match;
+    if (code !== undefined) {
+      nodes.push({ type: "code", text: code });
+    } else if (linkText !== undefined) {
+      const target = toLinkTarget(href);
+      const children = parseInline(linkText);
+      nodes.push(target ? { ...target, children } : { type: "text", text: linkText });
+    } else if (strong !== undefined || strongUnderscore !== undefined) {
+      nodes.push({ type: "strong", children: parseInline(strong ?? strongUnderscore) });
+    } else {
+      nodes.push({ type: "emphasis", children: parseInline(emphasis ?? emphasisUnderscore) });
+    }
+
+    rest = rest.slice(match.index + whole.length);
+  }
+
+  return nodes;
+}
+
+export function parseMarkdown(source: string): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  const lines = source.replace(/\r\n?/g, "\n").split("\n");
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: "paragraph", children: parseInline(paragraph.join("\n")) });
+      paragraph = [];
+    }
+  };
+
+  for (let index = 0; index < lines.length; index += 1) {
+    const line = lines[index];
+
+    if (FENCE_PATTERN.test(line)) {
+      flushParagraph();
+      const code: string[] = [];
+      index += 1;
+      while (index < lines.length && !FENCE_PATTERN.test(lines[index])) {
+        code.push(lines[index]);
+        index += 1;
+      }
+      blocks.push({ type: "code_block", text: code.join("\n") });
+      continue;
+    }
+
+    if (!line.trim()) {
+      flushParagraph();
+      continue;
+    }
+
+    const heading = HEADING_PATTERN.exec(line);
+    if (heading) {
+      flushParagraph();
+      blocks.push({ type: "heading", children: parseInline(heading[1]) });
+      continue;
+    }
+
+    const bullet = BULLET_PATTERN.exec(line);
+    const numbered = bullet ? null : ORDERED_PATTERN.exec(line);
+    if (bullet || numbered) {
+      flushParagraph();
+      const ordered = Boolean(numbered);
+      const item = (bullet ?? numbered)?.[1] ?? "";
+      const previous = blocks[blocks.length - 1];
+      if (previous?.type === "list" && previous.ordered === ordered) {
+        previous.items.push(parseInline(item));
+      } else {
+        blocks.push({ type: "list", ordered, items: [parseInline(item)] });
+      }
+      continue;
+    }
+
+    const quote = QUOTE_PATTERN.exec(line);
+    if (quote) {
+      flushParagraph();
+      const previous = blocks[blocks.length - 1];
+      if (previous?.type === "quote") {
+        previous.children.push({ type: "text", text: "\n" }, ...parseInline(quote[1]));
+      } else {
+        blocks.push({ type: "quote", children: parseInline(quote[1]) });
+      }
+      continue;
+    }
+
+    // An indented line right after a list item continues that item.
+    const previous = blocks[blocks.length - 1];
+    if (paragraph.length === 0 && previous?.type === "list" && /^\s+\S/.test(line)) {
+      previous.items[previous.items.length - 1].push({ type: "text", text: ` ${line.trim()}` });
+      continue;
+    }
+
+    paragraph.push(line);
+  }
+
+  flushParagraph();
+  return blocks;
+}
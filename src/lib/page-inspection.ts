@@ -0,0 +1,241 @@
+import { isVisible, normalizeText } from "@/lib/dom-helpers";
+import { assignElementRef } from "@/lib/element-refs";
+import { readFullFieldValue } from "@/lib/form-state";
+
+const CHAT_UI_SELECTOR = "[data-chat-ui='true']";
+const SEARCH_SELECTOR =
+  "h1, h2, h3, h4, h5, h6, p, li, dt, dd, blockquote, figcaption, td, th, label, a, button";
+const MAX_LINKS = 40;
+
+const BLOCK_TAGS = new Set([
+  "ARTICLE",
+  "ASIDE",
+  "BLOCKQUOTE",
+  "BR",
+  "DD",
+  "DIV",
+  "DL",
+  "DT",
+  "FIGCAPTION",
+  "FOOTER",
+  "FORM",
+  "H1",
+  "H2",
+  "H3",
+  "H4",
+  "H5",
+  "H6",
+  "HEADER",
+  "LI",
+  "MAIN",
+  "NAV",
+  "OL",
+  "P",
+  "SECTION",
+  "TR",
+  "UL",
+]);
+
+const SEPARATED_TAGS = new Set(["A", "BUTTON", "LABEL"]);
+const SKIPPED_TAGS = new Set(["SCRIPT", "STYLE", "TEMPLATE", "NOSCRIPT", "SVG"]);
+
+export interface PageMatch {
+  ref: string;
+  tag: string;
+  sectionId: string;
+  snippet: string;
+}
+
+export type LinkKind = "in-page" | "same-site" | "external";
+
+export interface LinkInfo {
+  ref: string;
+  text: string;
+  href: string;
+  kind: LinkKind;
+  newTab: boolean;
+  sectionId: string;
+}
+
+export interface LinkFilter {
+  sectionId?: string;
+  kind?: LinkKind;
+}
+
+function inspectionRoot(): HTMLElement {
+  return document.querySelector<HTMLElement>("[data-portfolio-root]") ?? document.body;
+}
+
+function isInspectable(element: Element): boolean {
+  return !element.closest(CHAT_UI_SELECTOR) && isVisible(element);
+}
+
+function collectText(node: Node, parts: string[]): void {
+  if (node.nodeType === Node.TEXT_NODE) {
+    parts.push(node.textContent ?? "");
+    return;
+  }
+
+  if (!(node instanceof Element) || SKIPPED_TAGS.has(node.tagName.toUpperCase())) {
+    return;
+  }
+
+  if (
+    node.matches(CHAT_UI_SELECTOR) ||
+    node.getAttribute("aria-hidden") === "true" ||
+    (node instanceof HTMLElement && node.hidden)
+  ) {
+    return;
+  }
+
+  const fieldValue = readFullFieldValue(node);
+  if (fieldValue !== undefined) {
+    parts.push(` ${fieldValue} `);
+    return;
+  }
+
+  const separator = BLOCK_TAGS.has(node.tagName)
+    ? "\n"
+    : SEPARATED_TAGS.has(node.tagName)
+      ? " "
+      : "";
+
+  parts.push(separator);
+  node.childNodes.forEach((child) => collectText(child, parts));
+  parts.push(separator);
+}
+
+export function readFullText(element: Element): string {
+  const parts: string[] = [];
+  collectText(element, parts);
+
+  return parts
+    .join("")
+    .split("\n")
+    .map((line) => line.replace(/\s+/g, " ").trim())
+    .filter(Boolean)
+    .join("\n");
+}
+
+function sectionOf(element: Element): string {
+  return element.closest("section[id]")?.id ?? "";
+}
+
+function buildSnippet(text: string, index: number, length: number): string {
+  const start = Math.max(0, index - 60);
+  const end = Math.min(text.length, index + length + 100);
+  const prefix = start > 0 ? "..." : "";
+  const suffix = end < text.length ? "..." : "";
+
+  return `${prefix}${text.slice(start, end)}${suffix}`;
+}
+
+export function findInPage(query: string, limit: number): PageMatch[] {
+  const phrase = query.toLowerCase().replace(/\s+/g, " ").trim();
+  if (!phrase) {
+    return [];
+  }
+
+  const words = phrase.split(" ").filter((word) => word.length > 1);
+  const minimumWords = Math.max(1, Math.ceil(words.length / 2));
+
+  const scored = Array.from(inspectionRoot().querySelectorAll(SEARCH_SELECTOR))
+    .filter(isInspectable)
+    .flatMap((element) => {
+      const text = readFullText(element).replace(/\s+/g, " ");
+      const lower = text.toLowerCase();
+      const phraseIndex = lower.indexOf(phrase);
+      const matchedWords = words.filter((word) => lower.includes(word));
+
+      if (phraseIndex === -1 && matchedWords.length < minimumWords) {
+        return [];
+      }
+
+      const index = phraseIndex !== -1 ? phraseIndex : lower.indexOf(matchedWords[0]);
+      const length = phraseIndex !== -1 ? phrase.length : matchedWords[0].length;
+
+      return [
+        {
+          element,
+          text,
+          score: (phraseIndex !== -1 ? 1 : 0) + matchedWords.length / Math.max(words.length, 1),
+          snippet: buildSnippet(text, index, length),
+        },
+      ];
+    });
+
+  // Keep the innermost match when a list item and the link inside it both match.
+  const innermost = scored.filter(
+    (item) =>
+      !scored.some(
+        (other) =>
+          other !== item && other.score >= item.score && item.element.contains(other.element)
+      )
+  );
+
+  return innermost
+    .sort((a, b) => b.score - a.score || a.text.length - b.text.length)
+    .slice(0, limit)
+    .map((item) => ({
+      ref: assignElementRef(item.element as HTMLElement),
+      tag: item.element.tagName.toLowerCase(),
+      sectionId: sectionOf(item.element),
+      snippet: item.snippet,
+    }));
+}
+
+function classifyLink(url: URL): LinkKind {
+  if (url.origin !== window.location.origin) {
+    return "external";
+  }
+
+  const samePage =
+    url.pathname === window.location.pathname && url.search === window.location.search;
+  return samePage && url.hash ? "in-page" : "same-site";
+}
+
+export function listLinks(filter: LinkFilter = {}): LinkInfo[] {
+  const links: LinkInfo[] = [];
+
+  for (const anchor of Array.from(
+    inspectionRoot().querySelectorAll<HTMLAnchorElement>("a[href]")
+  )) {
+    if (!isInspectable(anchor)) {
+      continue;
+    }
+
+    let url: URL;
+    try {
+      url = new URL(anchor.getAttribute("href") ?? "", window.location.href);
+    } catch {
+      continue;
+    }
+
+    const info: LinkInfo = {
+      ref: assignElementRef(anchor),
+      text: normalizeText(
+        anchor.textContent || anchor.getAttribute("aria-label") || anchor.title || url.href,
+        80
+      ),
+      href: url.href,
+      kind: classifyLink(url),
+      newTab: anchor.target === "_blank",
+      sectionId: sectionOf(anchor),
+    };
+
+    if (filter.sectionId && info.sectionId !== filter.sectionId) {
+      continue;
+    }
+
+    if (filter.kind && info.kind !== filter.kind) {
+      continue;
+    }
+
+    links.push(info);
+    if (links.length >= MAX_LINKS) {
+      break;
+    }
+  }
+
+  return links;
+}
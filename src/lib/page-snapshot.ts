@@ -1,96 +1,22 @@
-import type { ElementData, PageSnapshot, SectionData } from "@/lib/types";
+import { buildAccessibilityTree } from "@/lib/accessibility-tree";
+import {
+  buildSelector,
+  getViewportPosition,
+  isVisible,
+  normalizeText,
+} from "@/lib/dom-helpers";
+import { assignElementRef, retireDetachedRefs } from "@/lib/element-refs";
+import { collectForms, readFieldState } from "@/lib/form-state";
+import type {
+  ElementData,
+  PageSnapshot,
+  SectionData,
+  SnapshotMode,
+  ViewportState,
+} from "@/lib/types";
 
 const MAX_SECTIONS = 12;
 const MAX_ELEMENTS = 160;
-const MAX_TEXT = 260;
-
-function normalizeText(value: string, maxLength = MAX_TEXT): string {
-  const trimmed = value.replace(/\s+/g, " ").trim();
-  if (trimmed.length <= maxLength) {
-    return trimmed;
-  }
-
-  return `${trimmed.slice(0, maxLength - 3)}...`;
-}
-
-function escapeAttribute(value: string): string {
-  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
-}
-
-function escapeCssIdentifier(value: string): string {
-  if (typeof CSS !== "undefined" && typeof CSS.escape === "function") {
-    return CSS.escape(value);
-  }
-
-  return value.replace(/[^a-zA-Z0-9_-]/g, "\\$&");
-}
-
-function isVisible(element: Element): boolean {
-  const htmlElement = element as HTMLElement;
-  const style = window.getComputedStyle(htmlElement);
-  const rect = htmlElement.getBoundingClientRect();
-
-  return (
-    style.display !== "none" &&
-    style.visibility !== "hidden" &&
-    style.opacity !== "0" &&
-    rect.width > 0 &&
-    rect.height > 0
-  );
-}
-
-function buildSelector(element: Element): string {
-  const htmlElement = element as HTMLElement;
-  const tag = htmlElement.tagName.toLowerCase();
-
-  if (htmlElement.id) {
-    return `#${escapeCssIdentifier(htmlElement.id)}`;
-  }
-
-  const name = htmlElement.getAttribute("name");
-  if (name) {
-    const byName = `${tag}[name="${escapeAttribute(name)}"]`;
-    if (document.querySelectorAll(byName).length === 1) {
-      return byName;
-    }
-  }
-
-  const href = htmlElement.getAttribute("href");
-  if (href && tag === "a") {
-    const byHref = `a[href="${escapeAttribute(href)}"]`;
-    if (document.querySelectorAll(byHref).length === 1) {
-      return byHref;
-    }
-  }
-
-  const path: string[] = [];
-  let current: Element | null = htmlElement;
-
-  while (current && path.length < 4 && current !== document.body) {
-    const nodeTag = current.tagName.toLowerCase();
-    const currentId = (current as HTMLElement).id;
-
-    if (currentId) {
-      path.unshift(`#${escapeCssIdentifier(currentId)}`);
-      break;
-    }
-
-    const parentElement: Element | null = current.parentElement;
-    if (!parentElement) {
-      path.unshift(nodeTag);
-      break;
-    }
-
-    const siblings = Array.from(parentElement.children).filter(
-      (sibling) => sibling.tagName === current?.tagName
-    );
-    const nth = siblings.indexOf(current) + 1;
-    path.unshift(`${nodeTag}:nth-of-type(${nth})`);
-    current = parentElement;
-  }
-
-  return path.join(" > ");
-}
 
 function collectSections(root: ParentNode): SectionData[] {
   const sectionNodes = Array.from(
@@ -111,6 +37,36 @@ function collectSections(root: ParentNode): SectionData[] {
   });
 }
 
+function findCurrentSection(root: ParentNode): string {
+  let currentId = "";
+  let largestOverlap = 0;
+
+  for (const section of Array.from(root.querySelectorAll<HTMLElement>("section[id]"))) {
+    const rect = section.getBoundingClientRect();
+    const overlap =
+      Math.min(rect.bottom, window.innerHeight) - Math.max(rect.top, 0);
+
+    if (overlap > largestOverlap && isVisible(section)) {
+      currentId = section.id;
+      largestOverlap = overlap;
+    }
+  }
+
+  return currentId;
+}
+
+function readViewport(root: ParentNode): ViewportState {
+  return {
+    width: window.innerWidth,
+    height: window.innerHeight,
+    documentHeight: Math.max(
+      document.documentElement.scrollHeight,
+      document.body.scrollHeight
+    ),
+    currentSectionId: findCurrentSection(root),
+  };
+}
+
 function collectElements(root: ParentNode): ElementData[] {
   const nodes = Array.from(
     root.querySelectorAll<HTMLElement>(
@@ -130,7 +86,8 @@ function collectElements(root: ParentNode): ElementData[] {
       .filter((item): item is string => Boolean(item))
       .join(" ");
 
-    return {
+    const data: ElementData = {
+      ref: assignElementRef(element),
       selector: buildSelector(element),
       tag: element.tagName.toLowerCase(),
       text: normalizeText(textSource, 120),
@@ -145,20 +102,53 @@ function collectElements(root: ParentNode): ElementData[] {
       ),
       inputType: normalizeText(element.getAttribute("type") ?? "", 40),
       sectionId,
+      viewportPosition: getViewportPosition(element),
     };
+
+    const field = readFieldState(element);
+    if (field) {
+      data.field = field;
+    }
+
+    return data;
   });
 }
 
-export function extractPageSnapshot(): PageSnapshot {
-  const root =
-    document.querySelector<HTMLElement>("[data-portfolio-root]") ??
-    document.body;
+export interface SnapshotOptions {
+  mode?: SnapshotMode | "auto";
+}
 
-  return {
+export function extractPageSnapshot(options: SnapshotOptions = {}): PageSnapshot {
+  const portfolioRoot = document.querySelector<HTMLElement>("[data-portfolio-root]");
+  const root = portfolioRoot ?? document.body;
+  const requestedMode = options.mode ?? "auto";
+  const mode: SnapshotMode =
+    requestedMode === "auto"
+      ? portfolioRoot
+        ? "dom"
+        : "accessibility"
+      : requestedMode;
+
+  retireDetachedRefs();
+
+  const snapshot: PageSnapshot = {
     url: window.location.href,
     title: document.title,
     capturedAt: new Date().toISOString(),
+    mode,
+    scroll: {
+      x: Math.round(window.scrollX),
+      y: Math.round(window.scrollY),
+    },
+    viewport: readViewport(root),
     sections: collectSections(root),
-    elements: collectElements(root),
+    elements: mode === "dom" ? collectElements(root) : [],
+    forms: collectForms(root),
   };
+
+  if (mode === "accessibility") {
+    snapshot.accessibilityTree = buildAccessibilityTree(root);
+  }
+
+  return snapshot;
 }
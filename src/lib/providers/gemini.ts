@@ -0,0 +1,316 @@
+import type { ToolDeclaration, ToolParameterSchema } from "@/lib/tool-definitions";
+import type {
+  ChatProvider,
+  ProviderReply,
+  ProviderStreamHandlers,
+  ProviderTurn,
+  TranscriptEntry,
+} from "@/lib/providers/types";
+import { readSseEvents } from "@/lib/sse";
+
+interface GeminiConfig {
+  apiKey: string;
+  model: string;
+}
+
+interface GeminiFunctionCall {
+  id?: string;
+  name?: string;
+  args?: unknown;
+}
+
+interface GeminiFunctionResponse {
+  id?: string;
+  name: string;
+  response: Record<string, unknown>;
+}
+
+interface GeminiPart {
+  text?: string;
+  functionCall?: GeminiFunctionCall;
+  functionResponse?: GeminiFunctionResponse;
+}
+
+interface GeminiContent {
+  role: "user" | "model";
+  parts: GeminiPart[];
+}
+
+interface GeminiCandidate {
+  content?: {
+    parts?: GeminiPart[];
+  };
+}
+
+interface GeminiResponse {
+  candidates?: GeminiCandidate[];
+}
+
+interface GeminiSchema {
+  type: string;
+  description?: string;
+  properties?: Record<string, GeminiSchema>;
+  items?: GeminiSchema;
+  required?: string[];
+}
+
+interface GeminiFunctionDeclaration {
+  name: string;
+  description: string;
+  parameters: GeminiSchema;
+}
+
+function toGeminiSchema(schema: ToolParameterSchema): GeminiSchema {
+  const converted: GeminiSchema = {
+    type: schema.type.toUpperCase(),
+  };
+
+  if (schema.description) {
+    converted.description = schema.description;
+  }
+
+  if (schema.properties) {
+    converted.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [
+        key,
+        toGeminiSchema(value),
+      ])
+    );
+  }
+
+  if (schema.items) {
+    converted.items = toGeminiSchema(schema.items);
+  }
+
+  if (schema.required) {
+    converted.required = schema.required;
+  }
+
+  return converted;
+}
+
+export function toGeminiFunctionDeclarations(
+  tools: ToolDeclaration[]
+): GeminiFunctionDeclaration[] {
+  return tools.map((tool) => ({
+    name: tool.name,
+    description: tool.description,
+    parameters: toGeminiSchema(tool.parameters),
+  }));
+}
+
+function toGeminiContent(entry: TranscriptEntry): GeminiContent {
+  switch (entry.role) {
+    case "user":
+      return { role: "user", parts: [{ text: entry.text }] };
+    case "assistant":
+      return {
+        role: "model",
+        parts: [
+          ...(entry.text ? [{ text: entry.text }] : []),
+          ...entry.toolCalls.map((call) => ({
+            functionCall: { id: call.id, name: call.name, args: call.args },
+          })),
+        ],
+      };
+    case "tool":
+      return {
+        role: "user",
+        parts: entry.results.map((result) => ({
+          functionResponse: {
+            id: result.toolCallId,
+            name: result.name,
+            response: { success: result.success, output: result.output },
+          },
+        })),
+      };
+  }
+}
+
+function toGeminiPayload(
+  turn: ProviderTurn,
+  tools: ToolDeclaration[],
+  functionCallingMode: "AUTO" | "NONE",
+  temperature: number
+): Record<string, unknown> {
+  return {
+    systemInstruction: {
+      parts: [{ text: turn.instructions }],
+    },
+    contents: turn.transcript.map(toGeminiContent),
+    ...(tools.length > 0
+      ? {
+          tools: [
+            {
+              functionDeclarations: toGeminiFunctionDeclarations(tools),
+            },
+          ],
+          toolConfig: {
+            functionCallingConfig: { mode: functionCallingMode },
+          },
+        }
+      : {}),
+    generationConfig: {
+      temperature,
+    },
+  };
+}
+
+function parseGeminiParts(response: GeminiResponse): GeminiPart[] {
+  return response.candidates?.[0]?.content?.parts ?? [];
+}
+
+function extractText(parts: GeminiPart[]): string {
+  return parts
+    .map((part) => part.text ?? "")
+    .join("\n")
+    .trim();
+}
+
+function toReply(parts: GeminiPart[]): ProviderReply {
+  return {
+    text: extractText(parts),
+    functionCalls: parts
+      .map((part) => part.functionCall)
+      .filter(
+        (call): call is GeminiFunctionCall & { name: string } =>
+          Boolean(call) && typeof call?.name === "string"
+      )
+      .map((call) => ({ name: call.name, args: call.args })),
+  };
+}
+
+async function postGemini(
+  config: GeminiConfig,
+  method: "generateContent" | "streamGenerateContent",
+  payload: Record<string, unknown>,
+  signal?: AbortSignal
+): Promise<Response> {
+  const query = method === "streamGenerateContent" ? "alt=sse&" : "";
+  const response = await fetch(
+    `https://generativelanguage.googleapis.com/v1beta/models/${config.model}:${method}?${query}key=${encodeURIComponent(
+      config.apiKey
+    )}`,
+    {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(payload),
+      cache: "no-store",
+      signal,
+    }
+  );
+
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(text || "Gemini API request failed.");
+  }
+
+  return response;
+}
+
+async function callGemini(
+  config: GeminiConfig,
+  payload: Record<string, unknown>,
+  signal?: AbortSignal
+): Promise<GeminiResponse> {
+  const response = await postGemini(config, "generateContent", payload, signal);
+  return (await response.json()) as GeminiResponse;
+}
+
+async function streamGemini(
+  config: GeminiConfig,
+  payload: Record<string, unknown>,
+  handlers: ProviderStreamHandlers,
+  signal?: AbortSignal
+): Promise<ProviderReply> {
+  const response = await postGemini(config, "streamGenerateContent", payload, signal);
+  if (!response.body) {
+    throw new Error("Gemini API returned an empty stream.");
+  }
+
+  const reply: ProviderReply = { text: "", functionCalls: [] };
+
+  for await (const event of readSseEvents(response.body)) {
+    const chunk = JSON.parse(event.data) as GeminiResponse;
+
+    for (const part of parseGeminiParts(chunk)) {
+      if (part.text) {
+        reply.text += part.text;
+        handlers.onText?.(part.text);
+      }
+
+      if (part.functionCall && typeof part.functionCall.name === "string") {
+        const call = { name: part.functionCall.name, args: part.functionCall.args };
+        reply.functionCalls.push(call);
+        handlers.onFunctionCall?.(call);
+      }
+    }
+  }
+
+  reply.text = reply.text.trim();
+  return reply;
+}
+
+function generate(
+  config: GeminiConfig,
+  payload: Record<string, unknown>,
+  handlers?: ProviderStreamHandlers,
+  signal?: AbortSignal
+): Promise<ProviderReply> {
+  if (handlers) {
+    return streamGemini(config, payload, handlers, signal);
+  }
+
+  return callGemini(config, payload, signal).then((response) =>
+    toReply(parseGeminiParts(response))
+  );
+}
+
+function normalizeGeminiError(rawMessage: string): string {
+  const lower = rawMessage.toLowerCase();
+
+  if (
+    rawMessage.includes('"code": 429') ||
+    lower.includes("quota exceeded") ||
+    lower.includes("rate-limits")
+  ) {
+    return "Gemini key is configured, but quota is exhausted. Enable billing or create a new key with available quota in Google AI Studio.";
+  }
+
+  if (rawMessage.includes('"code": 401') || lower.includes("api key not valid")) {
+    return "Gemini API key is invalid. Update GEMINI_API_KEY in .env.local and redeploy.";
+  }
+
+  if (rawMessage.includes('"code": 404') || lower.includes("not found")) {
+    return "Configured Gemini model is unavailable. Set GEMINI_MODEL to a valid model from ListModels.";
+  }
+
+  return rawMessage;
+}
+
+export function createGeminiProvider(config: GeminiConfig): ChatProvider {
+  return {
+    name: "gemini",
+    plan(turn, tools, handlers) {
+      return generate(
+        config,
+        toGeminiPayload(turn, tools, "AUTO", 0.2),
+        handlers,
+        turn.signal
+      );
+    },
+    async respond(turn, tools, handlers) {
+      const reply = await generate(
+        config,
+        toGeminiPayload(turn, tools, "NONE", 0.3),
+        handlers,
+        turn.signal
+      );
+
+      return reply.text;
+    },
+    normalizeError: normalizeGeminiError,
+  };
+}
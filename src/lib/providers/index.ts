@@ -0,0 +1,57 @@
+import { createGeminiProvider } from "@/lib/providers/gemini";
+import { createOpenAiCompatibleProvider } from "@/lib/providers/openai-compatible";
+import { createScriptedProvider } from "@/lib/providers/scripted";
+import { ProviderConfigError, type ChatProvider } from "@/lib/providers/types";
+
+export { ProviderConfigError } from "@/lib/providers/types";
+export type {
+  ChatProvider,
+  ProviderFunctionCall,
+  ProviderReply,
+  ProviderStreamHandlers,
+  ProviderTurn,
+  TranscriptEntry,
+} from "@/lib/providers/types";
+export { buildTranscript } from "@/lib/providers/transcript";
+
+type ProviderEnv = Record<string, string | undefined>;
+
+export function createChatProvider(env: ProviderEnv = process.env): ChatProvider {
+  const providerName = (env.LLM_PROVIDER ?? "gemini").trim().toLowerCase();
+
+  switch (providerName) {
+    case "gemini": {
+      const apiKey = env.GEMINI_API_KEY;
+      if (!apiKey) {
+        throw new ProviderConfigError(
+          "Server configuration is missing GEMINI_API_KEY in environment variables."
+        );
+      }
+
+      return createGeminiProvider({
+        apiKey,
+        model: env.GEMINI_MODEL ?? "gemini-2.5-flash",
+      });
+    }
+    case "openai": {
+      const model = env.OPENAI_MODEL;
+      if (!model) {
+        throw new ProviderConfigError(
+          "Server configuration is missing OPENAI_MODEL in environment variables."
+        );
+      }
+
+      return createOpenAiCompatibleProvider({
+        baseUrl: env.OPENAI_BASE_URL ?? "https://api.openai.com/v1",
+        model,
+        apiKey: env.OPENAI_API_KEY,
+      });
+    }
+    case "scripted":
+      return createScriptedProvider();
+    default:
+      throw new ProviderConfigError(
+        `Unknown LLM_PROVIDER "${providerName}". Use gemini, openai, or scripted.`
+      );
+  }
+}
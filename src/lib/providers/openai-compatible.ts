@@ -0,0 +1,288 @@
+import type { ToolDeclaration } from "@/lib/tool-definitions";
+import type {
+  ChatProvider,
+  ProviderReply,
+  ProviderStreamHandlers,
+  ProviderTurn,
+  TranscriptEntry,
+} from "@/lib/providers/types";
+import { readSseEvents } from "@/lib/sse";
+
+interface OpenAiCompatibleConfig {
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+}
+
+interface OpenAiToolCall {
+  type?: string;
+  function?: {
+    name?: string;
+    arguments?: string;
+  };
+}
+
+interface OpenAiMessage {
+  content?: string | null;
+  tool_calls?: OpenAiToolCall[];
+}
+
+interface OpenAiResponse {
+  choices?: {
+    message?: OpenAiMessage;
+  }[];
+}
+
+interface OpenAiToolCallDelta {
+  index?: number;
+  function?: {
+    name?: string;
+    arguments?: string;
+  };
+}
+
+interface OpenAiStreamChunk {
+  choices?: {
+    delta?: {
+      content?: string | null;
+      tool_calls?: OpenAiToolCallDelta[];
+    };
+  }[];
+}
+
+type OpenAiChatMessage =
+  | { role: "system" | "user"; content: string }
+  | {
+      role: "assistant";
+      content: string | null;
+      tool_calls?: {
+        id: string;
+        type: "function";
+        function: { name: string; arguments: string };
+      }[];
+    }
+  | { role: "tool"; tool_call_id: string; content: string };
+
+function toOpenAiMessages(entry: TranscriptEntry): OpenAiChatMessage[] {
+  switch (entry.role) {
+    case "user":
+      return [{ role: "user", content: entry.text }];
+    case "assistant":
+      return [
+        {
+          role: "assistant",
+          content: entry.text || null,
+          ...(entry.toolCalls.length > 0
+            ? {
+                tool_calls: entry.toolCalls.map((call) => ({
+                  id: call.id,
+                  type: "function" as const,
+                  function: {
+                    name: call.name,
+                    arguments: JSON.stringify(call.args),
+                  },
+                })),
+              }
+            : {}),
+        },
+      ];
+    case "tool":
+      return entry.results.map((result) => ({
+        role: "tool",
+        tool_call_id: result.toolCallId,
+        content: JSON.stringify({ success: result.success, output: result.output }),
+      }));
+  }
+}
+
+function toOpenAiPayload(
+  turn: ProviderTurn,
+  tools: ToolDeclaration[],
+  toolChoice: "auto" | "none",
+  temperature: number
+): Record<string, unknown> {
+  return {
+    messages: [
+      { role: "system", content: turn.instructions },
+      ...turn.transcript.flatMap(toOpenAiMessages),
+    ],
+    ...(tools.length > 0
+      ? { tools: toOpenAiTools(tools), tool_choice: toolChoice }
+      : {}),
+    temperature,
+  };
+}
+
+export function toOpenAiTools(tools: ToolDeclaration[]) {
+  return tools.map((tool) => ({
+    type: "function" as const,
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.parameters,
+    },
+  }));
+}
+
+function toReply(message: OpenAiMessage | undefined): ProviderReply {
+  return {
+    text: (message?.content ?? "").trim(),
+    functionCalls: (message?.tool_calls ?? [])
+      .filter(
+        (call): call is OpenAiToolCall & { function: { name: string } } =>
+          typeof call.function?.name === "string"
+      )
+      .map((call) => ({
+        name: call.function.name,
+        args: call.function.arguments ?? "{}",
+      })),
+  };
+}
+
+async function postChatCompletions(
+  config: OpenAiCompatibleConfig,
+  payload: Record<string, unknown>,
+  signal?: AbortSignal
+): Promise<Response> {
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+  };
+
+  if (config.apiKey) {
+    headers.Authorization = `Bearer ${config.apiKey}`;
+  }
+
+  const response = await fetch(
+    `${config.baseUrl.replace(/\/+$/, "")}/chat/completions`,
+    {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ model: config.model, ...payload }),
+      cache: "no-store",
+      signal,
+    }
+  );
+
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(text || "Chat completions request failed.");
+  }
+
+  return response;
+}
+
+async function callChatCompletions(
+  config: OpenAiCompatibleConfig,
+  payload: Record<string, unknown>,
+  signal?: AbortSignal
+): Promise<ProviderReply> {
+  const response = await postChatCompletions(config, payload, signal);
+  const parsed = (await response.json()) as OpenAiResponse;
+  return toReply(parsed.choices?.[0]?.message);
+}
+
+async function streamChatCompletions(
+  config: OpenAiCompatibleConfig,
+  payload: Record<string, unknown>,
+  handlers: ProviderStreamHandlers,
+  signal?: AbortSignal
+): Promise<ProviderReply> {
+  const response = await postChatCompletions(config, { ...payload, stream: true }, signal);
+  if (!response.body) {
+    throw new Error("Chat completions endpoint returned an empty stream.");
+  }
+
+  let text = "";
+  const pendingCalls: { name: string; arguments: string }[] = [];
+
+  for await (const event of readSseEvents(response.body)) {
+    if (event.data === "[DONE]") {
+      break;
+    }
+
+    const chunk = JSON.parse(event.data) as OpenAiStreamChunk;
+    const delta = chunk.choices?.[0]?.delta;
+
+    if (delta?.content) {
+      text += delta.content;
+      handlers.onText?.(delta.content);
+    }
+
+    for (const callDelta of delta?.tool_calls ?? []) {
+      const index = callDelta.index ?? pendingCalls.length;
+      const pending = (pendingCalls[index] ??= { name: "", arguments: "" });
+      pending.name += callDelta.function?.name ?? "";
+      pending.arguments += callDelta.function?.arguments ?? "";
+    }
+  }
+
+  const functionCalls = pendingCalls
+    .filter((call) => Boolean(call?.name))
+    .map((call) => ({ name: call.name, args: call.arguments || "{}" }));
+
+  for (const call of functionCalls) {
+    handlers.onFunctionCall?.(call);
+  }
+
+  return { text: text.trim(), functionCalls };
+}
+
+function generate(
+  config: OpenAiCompatibleConfig,
+  payload: Record<string, unknown>,
+  handlers?: ProviderStreamHandlers,
+  signal?: AbortSignal
+): Promise<ProviderReply> {
+  return handlers
+    ? streamChatCompletions(config, payload, handlers, signal)
+    : callChatCompletions(config, payload, signal);
+}
+
+function normalizeOpenAiError(rawMessage: string): string {
+  const lower = rawMessage.toLowerCase();
+
+  if (lower.includes("rate limit") || lower.includes("insufficient_quota")) {
+    return "The configured model endpoint is rate limited or out of quota. Try again shortly or check your plan.";
+  }
+
+  if (lower.includes("invalid_api_key") || lower.includes("incorrect api key")) {
+    return "OpenAI-compatible API key is invalid. Update OPENAI_API_KEY in .env.local and redeploy.";
+  }
+
+  if (lower.includes("model_not_found") || lower.includes("does not exist")) {
+    return "Configured model is unavailable on this endpoint. Set OPENAI_MODEL to a model the server provides.";
+  }
+
+  if (lower.includes("fetch failed") || lower.includes("econnrefused")) {
+    return "Could not reach the model server. Check OPENAI_BASE_URL and make sure the server is running.";
+  }
+
+  return rawMessage;
+}
+
+export function createOpenAiCompatibleProvider(
+  config: OpenAiCompatibleConfig
+): ChatProvider {
+  return {
+    name: "openai",
+    plan(turn, tools, handlers) {
+      return generate(
+        config,
+        toOpenAiPayload(turn, tools, "auto", 0.2),
+        handlers,
+        turn.signal
+      );
+    },
+    async respond(turn, tools, handlers) {
+      const reply = await generate(
+        config,
+        toOpenAiPayload(turn, tools, "none", 0.3),
+        handlers,
+        turn.signal
+      );
+
+      return reply.text;
+    },
+    normalizeError: normalizeOpenAiError,
+  };
+}
@@ -0,0 +1,140 @@
+import type {
+  ChatProvider,
+  ProviderFunctionCall,
+  ProviderStreamHandlers,
+  SummaryInput,
+} from "@/lib/providers/types";
+import type { ToolResult } from "@/lib/types";
+
+const SECTION_KEYWORDS: Record<string, string[]> = {
+  hero: ["home", "top", "intro"],
+  about: ["about", "bio", "background"],
+  projects: ["project", "portfolio", "work"],
+  skills: ["skill", "stack", "tech"],
+  contact: ["contact", "hire", "reach"],
+};
+
+const TOUR_STOPS = [
+  { sectionId: "about", caption: "Start here for background and focus areas." },
+  { sectionId: "projects", caption: "Selected projects, newest first." },
+  { sectionId: "skills", caption: "The tools and languages used across the work." },
+  { sectionId: "contact", caption: "Get in touch about a project here." },
+];
+
+function findSection(message: string): string | null {
+  for (const [sectionId, keywords] of Object.entries(SECTION_KEYWORDS)) {
+    if (keywords.some((keyword) => message.includes(keyword))) {
+      return sectionId;
+    }
+  }
+
+  return null;
+}
+
+function readQuoted(message: string): string | null {
+  const match = message.match(/["“']([^"”']+)["”']/);
+  return match ? match[1] : null;
+}
+
+function scriptCalls(rawMessage: string): ProviderFunctionCall[] {
+  const message = rawMessage.toLowerCase();
+
+  if (/\btour\b/.test(message)) {
+    return [{ name: "start_tour", args: { stops: TOUR_STOPS } }];
+  }
+
+  if (/\bscroll\b/.test(message)) {
+    return [
+      {
+        name: "scroll_by",
+        args: { delta: /\bup\b/.test(message) ? -480 : 480 },
+      },
+    ];
+  }
+
+  if (/\bhighlight\b/.test(message)) {
+    const text = readQuoted(rawMessage) ?? message.replace(/.*\bhighlight\b/, "").trim();
+    return text ? [{ name: "highlight_element", args: { text } }] : [];
+  }
+
+  if (/\b(go to|take me|navigate|open|show|jump)\b/.test(message)) {
+    const sectionId = findSection(message);
+    if (sectionId) {
+      return [{ name: "navigate_to_section", args: { sectionId } }];
+    }
+  }
+
+  return [];
+}
+
+function summarizeResults(results: ToolResult[]): string {
+  if (results.length === 0) {
+    return "Nothing was executed.";
+  }
+
+  return results
+    .map((item) => `${item.success ? "Done" : "Failed"}: ${item.output}`)
+    .join("\n");
+}
+
+// Keep the previous summary and list what the visitor asked for.
+function summarizeConversation(summary: SummaryInput): string {
+  const requests = summary.messages
+    .filter((item) => item.role === "user")
+    .map((item) => item.content.replace(/\s+/g, " ").trim());
+
+  return [
+    summary.previousSummary,
+    requests.length > 0 ? `The visitor asked: ${requests.join("; ")}.` : "",
+  ]
+    .filter(Boolean)
+    .join(" ");
+}
+
+function emit(
+  text: string,
+  functionCalls: ProviderFunctionCall[],
+  handlers?: ProviderStreamHandlers
+): void {
+  if (!handlers) {
+    return;
+  }
+
+  for (const word of text.match(/\S+\s*/g) ?? []) {
+    handlers.onText?.(word);
+  }
+
+  for (const call of functionCalls) {
+    handlers.onFunctionCall?.(call);
+  }
+}
+
+export function createScriptedProvider(): ChatProvider {
+  return {
+    name: "scripted",
+    async plan(turn, tools, handlers) {
+      const available = new Set(tools.map((tool) => tool.name as string));
+      const functionCalls = turn.toolResults?.length
+        ? []
+        : scriptCalls(turn.message).filter((call) => available.has(call.name));
+      const text =
+        functionCalls.length > 0
+          ? ""
+          : turn.toolResults?.length
+            ? summarizeResults(turn.toolResults)
+            : "Scripted mode is active. Ask me to go to a section, scroll, highlight something, or give you a tour.";
+
+      emit(text, functionCalls, handlers);
+      return { text, functionCalls };
+    },
+    async respond(turn, _tools, handlers) {
+      const text = turn.summary
+        ? summarizeConversation(turn.summary)
+        : summarizeResults(turn.toolResults ?? []);
+
+      emit(text, [], handlers);
+      return text;
+    },
+    normalizeError: (rawMessage) => rawMessage,
+  };
+}
@@ -0,0 +1,73 @@
+import type { TranscriptEntry } from "@/lib/providers/types";
+import type { ChatMessage, ToolCall, ToolResult } from "@/lib/types";
+
+function appendText(
+  transcript: TranscriptEntry[],
+  role: "user" | "assistant",
+  text: string
+): void {
+  const last = transcript[transcript.length - 1];
+
+  if (role === "user" && last?.role === "user") {
+    last.text = `${last.text}\n\n${text}`;
+    return;
+  }
+
+  if (role === "assistant" && last?.role === "assistant" && last.toolCalls.length === 0) {
+    last.text = `${last.text}\n\n${text}`;
+    return;
+  }
+
+  transcript.push(role === "user" ? { role, text } : { role, text, toolCalls: [] });
+}
+
+function appendToolStep(
+  transcript: TranscriptEntry[],
+  calls: ToolCall[],
+  results: ToolResult[]
+): void {
+  const last = transcript[transcript.length - 1];
+
+  if (last?.role === "assistant" && last.toolCalls.length === 0) {
+    last.toolCalls = calls;
+  } else {
+    transcript.push({ role: "assistant", text: "", toolCalls: calls });
+  }
+
+  transcript.push({ role: "tool", results });
+}
+
+export function buildTranscript(history: ChatMessage[]): TranscriptEntry[] {
+  const transcript: TranscriptEntry[] = [];
+  let pendingCalls: ToolCall[] = [];
+  let pendingResults: ToolResult[] = [];
+
+  const flushToolStep = () => {
+    if (pendingCalls.length > 0) {
+      appendToolStep(transcript, pendingCalls, pendingResults);
+    }
+    pendingCalls = [];
+    pendingResults = [];
+  };
+
+  for (const message of history) {
+    if (message.role === "tool") {
+      if (message.toolCall && message.toolResult) {
+        pendingCalls.push(message.toolCall);
+        pendingResults.push(message.toolResult);
+      }
+      continue;
+    }
+
+    flushToolStep();
+
+    if (message.role === "assistant" && transcript.length === 0) {
+      continue;
+    }
+
+    appendText(transcript, message.role, message.content);
+  }
+
+  flushToolStep();
+  return transcript;
+}
@@ -0,0 +1,60 @@
+import type { ToolDeclaration } from "@/lib/tool-definitions";
+import type { ChatMessage, ToolCall, ToolResult } from "@/lib/types";
+
+export interface ProviderFunctionCall {
+  name: string;
+  args: unknown;
+}
+
+export interface ProviderReply {
+  text: string;
+  functionCalls: ProviderFunctionCall[];
+}
+
+export type TranscriptEntry =
+  | { role: "user"; text: string }
+  | { role: "assistant"; text: string; toolCalls: ToolCall[] }
+  | { role: "tool"; results: ToolResult[] };
+
+// The turns being folded into the running summary. Models read them from the
+// prompt text; the scripted provider builds its summary from this directly.
+export interface SummaryInput {
+  previousSummary: string;
+  messages: ChatMessage[];
+}
+
+export interface ProviderTurn {
+  instructions: string;
+  transcript: TranscriptEntry[];
+  message: string;
+  toolResults?: ToolResult[];
+  summary?: SummaryInput;
+  signal?: AbortSignal;
+}
+
+export interface ProviderStreamHandlers {
+  onText?(delta: string): void;
+  onFunctionCall?(call: ProviderFunctionCall): void;
+}
+
+export interface ChatProvider {
+  readonly name: string;
+  plan(
+    turn: ProviderTurn,
+    tools: ToolDeclaration[],
+    handlers?: ProviderStreamHandlers
+  ): Promise<ProviderReply>;
+  respond(
+    turn: ProviderTurn,
+    tools: ToolDeclaration[],
+    handlers?: ProviderStreamHandlers
+  ): Promise<string>;
+  normalizeError(rawMessage: string): string;
+}
+
+export class ProviderConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProviderConfigError";
+  }
+}
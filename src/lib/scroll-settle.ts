@@ -0,0 +1,44 @@
+import type { ScrollPosition } from "@/lib/types";
+
+const SETTLE_TIMEOUT_MS = 1500;
+const SETTLE_IDLE_MS = 120;
+const POLL_INTERVAL_MS = 16;
+
+export interface SettledScroll {
+  scroll: ScrollPosition;
+  settled: boolean;
+}
+
+// Smooth scrolling has no completion callback everywhere, so poll until the
+// position stops changing. Polling uses timers rather than animation frames so
+// it still finishes in background tabs.
+export function waitForScrollSettled(timeoutMs = SETTLE_TIMEOUT_MS): Promise<SettledScroll> {
+  return new Promise((resolve) => {
+    const startedAt = Date.now();
+    let lastX = window.scrollX;
+    let lastY = window.scrollY;
+    let stillSince = startedAt;
+
+    function check() {
+      const now = Date.now();
+      const x = window.scrollX;
+      const y = window.scrollY;
+
+      if (x !== lastX || y !== lastY) {
+        lastX = x;
+        lastY = y;
+        stillSince = now;
+      }
+
+      const settled = now - stillSince >= SETTLE_IDLE_MS;
+      if (settled || now - startedAt >= timeoutMs) {
+        resolve({ scroll: { x: Math.round(x), y: Math.round(y) }, settled });
+        return;
+      }
+
+      window.setTimeout(check, POLL_INTERVAL_MS);
+    }
+
+    window.setTimeout(check, POLL_INTERVAL_MS);
+  });
+}
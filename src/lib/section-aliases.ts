@@ -0,0 +1,14 @@
+export const SECTION_ALIASES: Record<string, string[]> = {
+  hero: ["hero", "home", "top", "intro", "landing"],
+  about: ["about", "bio", "background", "profile"],
+  projects: ["projects", "portfolio", "work", "case studies", "case-study"],
+  skills: ["skills", "tech", "stack", "expertise"],
+  contact: ["contact", "hire", "email", "reach", "message"],
+};
+
+// Whole words only, so "work" does not match "network" or "framework". The
+// text is expected in lowercase.
+export function containsPhrase(text: string, phrase: string): boolean {
+  const escaped = phrase.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`(?:^|[^a-z0-9])${escaped}(?:$|[^a-z0-9])`).test(text);
+}
@@ -0,0 +1,66 @@
+import { randomUUID } from "node:crypto";
+import { mkdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { createEmptyMemory } from "@/lib/conversation-memory";
+import type { ChatSession, SessionStore } from "@/lib/sessions/types";
+
+interface FileSessionConfig {
+  directory: string;
+  ttlMs: number;
+}
+
+function isChatSession(value: unknown): value is Omit<ChatSession, "memory"> &
+  Partial<Pick<ChatSession, "memory">> {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+
+  const session = value as Partial<ChatSession>;
+  return (
+    typeof session.id === "string" &&
+    Array.isArray(session.messages) &&
+    Array.isArray(session.pendingToolCalls) &&
+    typeof session.createdAt === "string" &&
+    typeof session.updatedAt === "string"
+  );
+}
+
+// One JSON file per session. Ids are checked by the caller, so they are safe
+// to use as file names.
+export function createFileSessionStore(config: FileSessionConfig): SessionStore {
+  const fileFor = (id: string) => path.join(config.directory, `${id}.json`);
+
+  return {
+    name: "file",
+    async load(id) {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(await readFile(fileFor(id), "utf8"));
+      } catch {
+        return null;
+      }
+
+      if (!isChatSession(parsed) || parsed.id !== id) {
+        return null;
+      }
+
+      if (Date.now() - Date.parse(parsed.updatedAt) > config.ttlMs) {
+        await rm(fileFor(id), { force: true });
+        return null;
+      }
+
+      // Sessions written before memory existed start with an empty one.
+      return { ...parsed, memory: parsed.memory ?? createEmptyMemory() };
+    },
+    async save(session) {
+      await mkdir(config.directory, { recursive: true });
+
+      const target = fileFor(session.id);
+      // Saves of one session can overlap (a deferred summary and the next
+      // request), so each write gets its own temporary file.
+      const temporary = `${target}.${randomUUID()}.tmp`;
+      await writeFile(temporary, JSON.stringify(session), "utf8");
+      await rename(temporary, target);
+    },
+  };
+}
@@ -0,0 +1,48 @@
+import path from "node:path";
+import { createFileSessionStore } from "@/lib/sessions/file";
+import { createMemorySessionStore } from "@/lib/sessions/memory";
+import { SessionConfigError, type SessionStore } from "@/lib/sessions/types";
+
+export { SessionConfigError } from "@/lib/sessions/types";
+export type { ChatSession, SessionStore } from "@/lib/sessions/types";
+
+type SessionEnv = Record<string, string | undefined>;
+
+const SESSION_ID_PATTERN = /^[A-Za-z0-9-]{8,80}$/;
+
+let sharedStore: SessionStore | null = null;
+
+export function isSessionId(value: unknown): value is string {
+  return typeof value === "string" && SESSION_ID_PATTERN.test(value);
+}
+
+export function createSessionId(): string {
+  return typeof crypto !== "undefined" && typeof crypto.randomUUID === "function"
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+}
+
+export function createSessionStore(env: SessionEnv = process.env): SessionStore {
+  const storeName = (env.SESSION_STORE ?? "memory").trim().toLowerCase();
+  const ttlMs = Math.max(1, Number(env.SESSION_TTL_MINUTES) || 120) * 60 * 1000;
+
+  switch (storeName) {
+    case "memory":
+      return createMemorySessionStore({ ttlMs });
+    case "file":
+      return createFileSessionStore({
+        directory: path.resolve(env.SESSION_STORE_DIR ?? ".sessions"),
+        ttlMs,
+      });
+    default:
+      throw new SessionConfigError(
+        `Unknown SESSION_STORE "${storeName}". Use memory or file.`
+      );
+  }
+}
+
+// Route handlers share one store so the memory store keeps its sessions.
+export function getSessionStore(): SessionStore {
+  sharedStore ??= createSessionStore();
+  return sharedStore;
+}
@@ -0,0 +1,46 @@
+import type { ChatSession, SessionStore } from "@/lib/sessions/types";
+
+const MAX_SESSIONS = 500;
+
+export function createMemorySessionStore(config: { ttlMs: number }): SessionStore {
+  const sessions = new Map<string, { session: ChatSession; storedAt: number }>();
+
+  function evict(now: number): void {
+    for (const [id, entry] of sessions) {
+      if (now - entry.storedAt > config.ttlMs) {
+        sessions.delete(id);
+      }
+    }
+
+    while (sessions.size > MAX_SESSIONS) {
+      const oldest = sessions.keys().next().value;
+      if (oldest === undefined) {
+        break;
+      }
+      sessions.delete(oldest);
+    }
+  }
+
+  return {
+    name: "memory",
+    async load(id) {
+      const entry = sessions.get(id);
+      if (!entry) {
+        return null;
+      }
+
+      if (Date.now() - entry.storedAt > config.ttlMs) {
+        sessions.delete(id);
+        return null;
+      }
+
+      return structuredClone(entry.session);
+    },
+    async save(session) {
+      const now = Date.now();
+      sessions.delete(session.id);
+      sessions.set(session.id, { session: structuredClone(session), storedAt: now });
+      evict(now);
+    },
+  };
+}
@@ -0,0 +1,24 @@
+import type { ConversationMemory } from "@/lib/conversation-memory";
+import type { ChatMessage, ToolCall } from "@/lib/types";
+
+export interface ChatSession {
+  id: string;
+  messages: ChatMessage[];
+  pendingToolCalls: ToolCall[];
+  memory: ConversationMemory;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SessionStore {
+  readonly name: string;
+  load(id: string): Promise<ChatSession | null>;
+  save(session: ChatSession): Promise<void>;
+}
+
+export class SessionConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SessionConfigError";
+  }
+}
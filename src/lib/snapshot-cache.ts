@@ -0,0 +1,53 @@
+import type { PageSnapshot } from "@/lib/types";
+
+const MAX_CLIENTS = 200;
+const SNAPSHOT_TTL_MS = 30 * 60 * 1000;
+
+interface CachedSnapshot {
+  version: number;
+  snapshot: PageSnapshot;
+  storedAt: number;
+}
+
+const snapshots = new Map<string, CachedSnapshot>();
+
+function evictExpired(now: number): void {
+  for (const [clientId, entry] of snapshots) {
+    if (now - entry.storedAt > SNAPSHOT_TTL_MS) {
+      snapshots.delete(clientId);
+    }
+  }
+
+  while (snapshots.size > MAX_CLIENTS) {
+    const oldest = snapshots.keys().next().value;
+    if (oldest === undefined) {
+      break;
+    }
+    snapshots.delete(oldest);
+  }
+}
+
+export function rememberSnapshot(
+  clientId: string,
+  version: number,
+  snapshot: PageSnapshot
+): void {
+  const now = Date.now();
+  snapshots.delete(clientId);
+  snapshots.set(clientId, { version, snapshot, storedAt: now });
+  evictExpired(now);
+}
+
+export function recallSnapshot(clientId: string, version: number): PageSnapshot | null {
+  const entry = snapshots.get(clientId);
+  if (!entry || entry.version !== version) {
+    return null;
+  }
+
+  if (Date.now() - entry.storedAt > SNAPSHOT_TTL_MS) {
+    snapshots.delete(clientId);
+    return null;
+  }
+
+  return entry.snapshot;
+}
@@ -0,0 +1,121 @@
+import type {
+  ElementData,
+  FormSummary,
+  PageSnapshot,
+  SectionData,
+  SnapshotChanges,
+  SnapshotDiff,
+} from "@/lib/types";
+
+function isSame(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function diffItems<T>(
+  previous: T[],
+  next: T[],
+  keyOf: (item: T) => string
+): SnapshotChanges<T> {
+  const previousByKey = new Map(previous.map((item) => [keyOf(item), item]));
+  const nextKeys = new Set(next.map(keyOf));
+
+  const changes: SnapshotChanges<T> = {
+    added: [],
+    removed: previous.map(keyOf).filter((key) => !nextKeys.has(key)),
+    changed: [],
+  };
+
+  for (const item of next) {
+    const before = previousByKey.get(keyOf(item));
+    if (!before) {
+      changes.added.push(item);
+    } else if (!isSame(before, item)) {
+      changes.changed.push(item);
+    }
+  }
+
+  const rebuiltOrder = applyItems(previous, changes, keyOf).map(keyOf);
+  const nextOrder = next.map(keyOf);
+  if (!isSame(rebuiltOrder, nextOrder)) {
+    changes.order = nextOrder;
+  }
+
+  return changes;
+}
+
+function applyItems<T>(
+  base: T[],
+  changes: SnapshotChanges<T>,
+  keyOf: (item: T) => string
+): T[] {
+  const removed = new Set(changes.removed);
+  const changed = new Map(changes.changed.map((item) => [keyOf(item), item]));
+
+  const items = [
+    ...base
+      .filter((item) => !removed.has(keyOf(item)))
+      .map((item) => changed.get(keyOf(item)) ?? item),
+    ...changes.added,
+  ];
+
+  if (!changes.order) {
+    return items;
+  }
+
+  const byKey = new Map(items.map((item) => [keyOf(item), item]));
+  return changes.order
+    .map((key) => byKey.get(key))
+    .filter((item): item is T => item !== undefined);
+}
+
+const sectionKey = (section: SectionData) => section.id;
+const elementKey = (element: ElementData) => element.ref;
+const formKey = (form: FormSummary) => form.ref;
+
+export function diffSnapshots(
+  base: PageSnapshot,
+  next: PageSnapshot,
+  baseVersion: number,
+  version: number
+): SnapshotDiff {
+  const diff: SnapshotDiff = {
+    baseVersion,
+    version,
+    url: next.url,
+    title: next.title,
+    capturedAt: next.capturedAt,
+    mode: next.mode,
+    scroll: next.scroll,
+    viewport: next.viewport,
+    sections: diffItems(base.sections, next.sections, sectionKey),
+    elements: diffItems(base.elements, next.elements, elementKey),
+    forms: diffItems(base.forms, next.forms, formKey),
+  };
+
+  if (next.accessibilityTree !== base.accessibilityTree) {
+    diff.accessibilityTree = next.accessibilityTree ?? "";
+  }
+
+  return diff;
+}
+
+export function applySnapshotDiff(base: PageSnapshot, diff: SnapshotDiff): PageSnapshot {
+  const snapshot: PageSnapshot = {
+    url: diff.url,
+    title: diff.title,
+    capturedAt: diff.capturedAt,
+    mode: diff.mode,
+    scroll: diff.scroll,
+    viewport: diff.viewport,
+    sections: applyItems(base.sections, diff.sections, sectionKey),
+    elements: applyItems(base.elements, diff.elements, elementKey),
+    forms: applyItems(base.forms, diff.forms, formKey),
+  };
+
+  const accessibilityTree = diff.accessibilityTree ?? base.accessibilityTree;
+  if (accessibilityTree) {
+    snapshot.accessibilityTree = accessibilityTree;
+  }
+
+  return snapshot;
+}
@@ -0,0 +1,191 @@
+import { containsPhrase, SECTION_ALIASES } from "@/lib/section-aliases";
+import type { ElementData, PageSnapshot, SectionData } from "@/lib/types";
+
+const STOP_WORDS = new Set([
+  "a",
+  "an",
+  "and",
+  "are",
+  "can",
+  "for",
+  "from",
+  "how",
+  "into",
+  "just",
+  "me",
+  "my",
+  "of",
+  "on",
+  "please",
+  "show",
+  "that",
+  "the",
+  "this",
+  "to",
+  "what",
+  "with",
+  "you",
+]);
+
+export interface RelevanceFocus {
+  message: string;
+  history: string[];
+}
+
+export interface PrunedSnapshot {
+  sections: SectionData[];
+  elements: ElementData[];
+  droppedSections: number;
+  droppedElements: number;
+}
+
+interface FocusTerms {
+  weights: Map<string, number>;
+  sectionWeights: Map<string, number>;
+}
+
+function stem(token: string): string {
+  return token.length > 3 ? token.replace(/(ies|es|s)$/, "") : token;
+}
+
+function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9]+/g) ?? [])
+    .filter((token) => token.length > 1 && !STOP_WORDS.has(token))
+    .map(stem);
+}
+
+function addSectionWeights(
+  text: string,
+  weight: number,
+  sections: SectionData[],
+  sectionWeights: Map<string, number>
+): void {
+  const normalized = text.toLowerCase();
+  const tokens = new Set(tokenize(text));
+
+  for (const section of sections) {
+    const aliases = SECTION_ALIASES[section.id] ?? [];
+    const headingTokens = tokenize(`${section.id} ${section.heading}`);
+    const matches =
+      aliases.some((alias) => containsPhrase(normalized, alias)) ||
+      headingTokens.some((token) => tokens.has(token));
+
+    if (matches) {
+      sectionWeights.set(
+        section.id,
+        Math.max(sectionWeights.get(section.id) ?? 0, weight)
+      );
+    }
+  }
+}
+
+function buildFocusTerms(focus: RelevanceFocus, sections: SectionData[]): FocusTerms {
+  const weights = new Map<string, number>();
+  const sectionWeights = new Map<string, number>();
+  const sources = [
+    { text: focus.message, weight: 1 },
+    ...focus.history.map((text) => ({ text, weight: 0.5 })),
+  ];
+
+  for (const { text, weight } of sources) {
+    for (const token of tokenize(text)) {
+      weights.set(token, Math.max(weights.get(token) ?? 0, weight));
+    }
+    addSectionWeights(text, weight, sections, sectionWeights);
+  }
+
+  return { weights, sectionWeights };
+}
+
+function scoreText(text: string, terms: FocusTerms): number {
+  let score = 0;
+  for (const token of new Set(tokenize(text))) {
+    score += terms.weights.get(token) ?? 0;
+  }
+
+  return score;
+}
+
+function scoreSection(
+  section: SectionData,
+  snapshot: PageSnapshot,
+  terms: FocusTerms
+): number {
+  return (
+    scoreText(`${section.heading} ${section.textPreview}`, terms) * 2 +
+    (terms.sectionWeights.get(section.id) ?? 0) * 4 +
+    (section.id === snapshot.viewport.currentSectionId ? 2 : 0)
+  );
+}
+
+function scoreElement(
+  element: ElementData,
+  snapshot: PageSnapshot,
+  terms: FocusTerms
+): number {
+  const text = [
+    element.text,
+    element.ariaLabel,
+    element.href,
+    element.inputName,
+    element.field?.label ?? "",
+  ].join(" ");
+  const needsAttention =
+    element.field?.invalid || (element.field?.required && !element.field.value);
+
+  return (
+    scoreText(text, terms) * 3 +
+    (terms.sectionWeights.get(element.sectionId) ?? 0) * 4 +
+    (element.viewportPosition === "in_viewport" ? 2 : 0) +
+    (element.sectionId === snapshot.viewport.currentSectionId ? 1 : 0) +
+    (needsAttention ? 1 : 0)
+  );
+}
+
+function pack<T>(
+  items: T[],
+  scoreOf: (item: T) => number,
+  budget: { remaining: number }
+): T[] {
+  const ranked = items
+    .map((item, index) => ({ item, index, score: scoreOf(item) }))
+    .sort((a, b) => b.score - a.score || a.index - b.index);
+
+  const kept: typeof ranked = [];
+  for (const entry of ranked) {
+    const cost = JSON.stringify(entry.item).length + 1;
+    if (cost <= budget.remaining) {
+      kept.push(entry);
+      budget.remaining -= cost;
+    }
+  }
+
+  return kept.sort((a, b) => a.index - b.index).map((entry) => entry.item);
+}
+
+export function pruneSnapshot(
+  snapshot: PageSnapshot,
+  focus: RelevanceFocus,
+  budgetChars: number
+): PrunedSnapshot {
+  const terms = buildFocusTerms(focus, snapshot.sections);
+  const budget = { remaining: budgetChars };
+
+  const sections = pack(
+    snapshot.sections,
+    (section) => scoreSection(section, snapshot, terms),
+    budget
+  );
+  const elements = pack(
+    snapshot.elements,
+    (element) => scoreElement(element, snapshot, terms),
+    budget
+  );
+
+  return {
+    sections,
+    elements,
+    droppedSections: snapshot.sections.length - sections.length,
+    droppedElements: snapshot.elements.length - elements.length,
+  };
+}
@@ -0,0 +1,57 @@
+import { diffSnapshots } from "@/lib/snapshot-diff";
+import type { ChatRequest, PageSnapshot } from "@/lib/types";
+
+export type SnapshotPayload = Pick<
+  ChatRequest,
+  "pageSnapshot" | "snapshotDiff" | "snapshotVersion" | "snapshotClientId"
+>;
+
+export interface SnapshotSync {
+  prepare(snapshot: PageSnapshot, options?: { full?: boolean }): SnapshotPayload;
+  acknowledge(version: number | undefined): void;
+  reset(): void;
+}
+
+export function createSnapshotSync(clientId: string): SnapshotSync {
+  let acknowledged: { version: number; snapshot: PageSnapshot } | null = null;
+  const pending = new Map<number, PageSnapshot>();
+  let nextVersion = 1;
+
+  return {
+    prepare(snapshot, options = {}) {
+      const version = nextVersion;
+      nextVersion += 1;
+      pending.set(version, snapshot);
+
+      if (!acknowledged || options.full) {
+        return {
+          pageSnapshot: snapshot,
+          snapshotVersion: version,
+          snapshotClientId: clientId,
+        };
+      }
+
+      return {
+        snapshotDiff: diffSnapshots(
+          acknowledged.snapshot,
+          snapshot,
+          acknowledged.version,
+          version
+        ),
+        snapshotVersion: version,
+        snapshotClientId: clientId,
+      };
+    },
+    acknowledge(version) {
+      const snapshot = version === undefined ? undefined : pending.get(version);
+      if (version !== undefined && snapshot) {
+        acknowledged = { version, snapshot };
+      }
+      pending.clear();
+    },
+    reset() {
+      acknowledged = null;
+      pending.clear();
+    },
+  };
+}
@@ -1,134 +1,329 @@
-import type { ToolName } from "@/lib/types";
+import {
+  schema,
+  toParameterSchema,
+  type InferField,
+  type ObjectSchema,
+  type ToolParameterSchema,
+} from "@/lib/tool-schema";
+import type { BuiltinToolName, ToolCall, ToolName, ToolResult } from "@/lib/types";
 
-export interface GeminiFunctionDeclaration {
+export type {
+  ObjectSchema,
+  ToolParameterSchema,
+  ToolParameterType,
+} from "@/lib/tool-schema";
+
+export interface ToolDeclaration {
   name: ToolName;
   description: string;
-  parameters: {
-    type: "OBJECT";
-    properties: Record<string, unknown>;
-    required?: string[];
-  };
+  parameters: ToolParameterSchema & { type: "object" };
+}
+
+export type ToolRisk = "auto" | "confirm" | "deny";
+
+export type ToolPolicy = Partial<Record<ToolName, ToolRisk>>;
+
+export interface ToolAssessment {
+  risk: ToolRisk;
+  target: string;
+  reason?: string;
+}
+
+export type MatchStrategy =
+  | "ref"
+  | "section"
+  | "selector"
+  | "project card"
+  | "text"
+  | "field name";
+
+export interface PreviewTarget {
+  description: string;
+  selector: string;
+  matchedBy: MatchStrategy;
+  box: { x: number; y: number; width: number; height: number };
+  value?: string;
+}
+
+export interface ToolPreview {
+  success: boolean;
+  summary: string;
+  targets: PreviewTarget[];
+}
+
+export interface ToolDefinition<Parameters extends ObjectSchema = ObjectSchema> {
+  name: ToolName;
+  description: string;
+  parameters: Parameters;
+  execute(call: ToolCall, args: InferField<Parameters>): ToolResult | Promise<ToolResult>;
+  isAvailable?(): boolean;
+  risk?: ToolRisk;
+  assess?(call: ToolCall, args: InferField<Parameters>): ToolAssessment;
+  preview?(call: ToolCall, args: InferField<Parameters>): ToolPreview;
+  readOnly?: boolean;
 }
 
 export const MAX_TOOL_CALLS_PER_TURN = 3;
+// Every dry-run result starts with this, so the route can tell previews apart.
+export const DRY_RUN_PREFIX = "Dry run, the page was not changed.";
+export const TOOL_NAME_PATTERN = /^[a-zA-Z_][a-zA-Z0-9_-]{0,63}$/;
+
+export function defineTool<Parameters extends ObjectSchema>(
+  definition: ToolDefinition<Parameters>
+): ToolDefinition<Parameters> {
+  return definition;
+}
+
+export function toToolDeclaration(
+  definition: Pick<ToolDefinition, "name" | "description" | "parameters">
+): ToolDeclaration {
+  return {
+    name: definition.name,
+    description: definition.description,
+    parameters: { ...toParameterSchema(definition.parameters), type: "object" },
+  };
+}
 
-export const GEMINI_TOOL_DECLARATIONS: GeminiFunctionDeclaration[] = [
-  {
-    name: "scroll_by",
+// Locators and lookups mean nothing when blank. Field values may be empty so
+// fill_input can clear a field.
+const NON_EMPTY = { minLength: 1 };
+
+const refField = schema.string(
+  "Element ref from the page snapshot, for example e12. Prefer this over selector and text.",
+  NON_EMPTY
+);
+
+export const BUILTIN_TOOL_SCHEMAS = {
+  scroll_by: {
     description:
       "Scroll the page vertically by a pixel amount. Positive delta scrolls down, negative scrolls up.",
-    parameters: {
-      type: "OBJECT",
-      properties: {
-        delta: {
-          type: "NUMBER",
-          description:
-            "Vertical scroll offset in pixels. Positive means down and negative means up.",
-        },
+    parameters: schema.object(
+      {
+        delta: schema.number(
+          "Vertical scroll offset in pixels. Positive means down and negative means up."
+        ),
       },
-      required: ["delta"],
-    },
+      { required: ["delta"] }
+    ),
   },
-  {
-    name: "navigate_to_section",
+  navigate_to_section: {
     description:
       "Navigate to a section by section ID or alias, such as home, about, projects, skills, or contact.",
-    parameters: {
-      type: "OBJECT",
-      properties: {
-        sectionId: {
-          type: "STRING",
-          description:
-            "Target section id without # when possible, for example projects or contact.",
-        },
+    parameters: schema.object(
+      {
+        sectionId: schema.string(
+          "Target section id without # when possible, for example projects or contact.",
+          NON_EMPTY
+        ),
       },
-      required: ["sectionId"],
-    },
+      { required: ["sectionId"] }
+    ),
   },
-  {
-    name: "click_element",
+  click_element: {
     description:
-      "Click a button or link on the page by CSS selector or visible text.",
-    parameters: {
-      type: "OBJECT",
-      properties: {
-        selector: {
-          type: "STRING",
-          description:
-            "A CSS selector for the element to click. Prefer this when available.",
-        },
-        text: {
-          type: "STRING",
-          description:
-            "Visible element text to match when selector is not reliable.",
-        },
+      "Click a button or link on the page by element ref, CSS selector, or visible text.",
+    parameters: schema.object(
+      {
+        ref: refField,
+        selector: schema.string(
+          "A CSS selector for the element to click. Prefer this when available.",
+          NON_EMPTY
+        ),
+        text: schema.string(
+          "Visible element text to match when selector is not reliable.",
+          NON_EMPTY
+        ),
       },
-    },
+      { requireOneOf: [["ref", "selector", "text"]] }
+    ),
   },
-  {
-    name: "highlight_element",
+  highlight_element: {
     description:
-      "Highlight an element so the user can visually locate it, using selector, text, section, or project hints.",
-    parameters: {
-      type: "OBJECT",
-      properties: {
-        selector: {
-          type: "STRING",
-          description: "A CSS selector for the element to highlight.",
-        },
-        text: {
-          type: "STRING",
-          description:
-            "Visible text to match if selector is unavailable or uncertain.",
-        },
+      "Highlight one or more elements so the user can visually locate them, using element ref, selector, text, section, or project hints. Highlights can carry a short label and an intent color.",
+    parameters: schema.object(
+      {
+        ref: refField,
+        selector: schema.string("A CSS selector for the element to highlight.", NON_EMPTY),
+        text: schema.string(
+          "Visible text to match if selector is unavailable or uncertain.",
+          NON_EMPTY
+        ),
+        sectionId: schema.string(
+          "Section id or alias to highlight, for example projects.",
+          NON_EMPTY
+        ),
+        label: schema.string("Short callout label shown next to the highlight."),
+        targets: schema.array(
+          "Several elements to highlight at once, at most 8. Use instead of ref, selector, text, and sectionId.",
+          schema.object(
+            {
+              ref: refField,
+              selector: schema.string("A CSS selector for the element.", NON_EMPTY),
+              text: schema.string("Visible text or project hint for the element.", NON_EMPTY),
+              sectionId: schema.string("Section id or alias.", NON_EMPTY),
+              label: schema.string("Short callout label for this element."),
+            },
+            { requireOneOf: [["ref", "selector", "text", "sectionId"]] }
+          )
+        ),
+        intent: schema.string("Highlight color: info (default), warning, or success.", NON_EMPTY),
+        durationSeconds: schema.number(
+          "How long the highlight stays, 1 to 60 seconds. Defaults to about 3."
+        ),
+        persistent: schema.boolean("Keep the highlight until the user dismisses it."),
       },
-    },
+      { requireOneOf: [["ref", "selector", "text", "sectionId", "targets"]] }
+    ),
   },
-  {
-    name: "fill_input",
+  fill_input: {
     description:
-      "Fill one or more text fields. Use selector+value+fieldName for single input or values object for multi-field input.",
-    parameters: {
-      type: "OBJECT",
-      properties: {
-        selector: {
-          type: "STRING",
-          description: "A CSS selector for the target input field.",
-        },
-        fieldName: {
-          type: "STRING",
-          description:
-            "Form field identifier such as name, email, subject, or message.",
-        },
-        value: {
-          type: "STRING",
-          description: "The text value that should be entered into the field.",
-        },
-        values: {
-          type: "OBJECT",
-          description:
-            "Optional batch input object. Use known keys like name, email, subject, and message.",
-          properties: {
-            name: {
-              type: "STRING",
-              description: "Name field value.",
-            },
-            email: {
-              type: "STRING",
-              description: "Email field value.",
-            },
-            subject: {
-              type: "STRING",
-              description: "Subject field value.",
-            },
-            message: {
-              type: "STRING",
-              description: "Message field value.",
-            },
+      "Fill one or more text fields. Use ref (or selector)+value+fieldName for single input or values object for multi-field input. An empty value clears the field. For dropdowns use select_option, for checkboxes set_checked.",
+    parameters: schema.object(
+      {
+        ref: schema.string(
+          "Element ref of the target input from the page snapshot, for example e12.",
+          NON_EMPTY
+        ),
+        selector: schema.string("A CSS selector for the target input field.", NON_EMPTY),
+        fieldName: schema.string(
+          "Form field identifier such as name, email, subject, or message.",
+          NON_EMPTY
+        ),
+        value: schema.string("The text value that should be entered into the field."),
+        values: schema.object(
+          {
+            name: schema.string("Name field value."),
+            email: schema.string("Email field value."),
+            subject: schema.string("Subject field value."),
+            message: schema.string("Message field value."),
           },
-        },
+          {
+            description:
+              "Optional batch input object for the contact fields name, email, subject, and message. Fill any other field on its own with ref, selector, or fieldName.",
+          }
+        ),
+      },
+      {
+        requireOneOf: [
+          ["value", "values"],
+          ["ref", "selector", "fieldName", "values"],
+        ],
+      }
+    ),
+  },
+  select_option: {
+    description:
+      "Choose an option in a dropdown (select element) by the option's visible text or value.",
+    parameters: schema.object(
+      {
+        ref: refField,
+        selector: schema.string("A CSS selector for the select element.", NON_EMPTY),
+        fieldName: schema.string("Field name, id, or aria-label of the select element.", NON_EMPTY),
+        option: schema.string("Visible text or value of the option to choose.", NON_EMPTY),
+      },
+      { required: ["option"], requireOneOf: [["ref", "selector", "fieldName"]] }
+    ),
+  },
+  set_checked: {
+    description:
+      "Check or uncheck a checkbox, or pick a radio button. For radio groups, pass the group fieldName and the option value or label.",
+    parameters: schema.object(
+      {
+        ref: refField,
+        selector: schema.string("A CSS selector for the checkbox or radio button.", NON_EMPTY),
+        fieldName: schema.string("Field name or id of the checkbox or radio group.", NON_EMPTY),
+        value: schema.string("For radio groups, the value or label of the option to pick."),
+        checked: schema.boolean("true to check, false to uncheck. Radio buttons can only be checked."),
+      },
+      { required: ["checked"], requireOneOf: [["ref", "selector", "fieldName"]] }
+    ),
+  },
+  submit_form: {
+    description:
+      "Validate and submit a form. Reports each invalid field instead of submitting when validation fails. Defaults to the contact form. The user must confirm before it is sent.",
+    parameters: schema.object({
+      ref: schema.string("Form ref from the page snapshot forms list, for example e40.", NON_EMPTY),
+      selector: schema.string("A CSS selector for the form. Defaults to #contact-form.", NON_EMPTY),
+    }),
+  },
+  start_tour: {
+    description:
+      "Start a guided tour that walks the user through page elements in order, showing a caption bubble next to each stop with next, previous, and exit controls.",
+    parameters: schema.object(
+      {
+        stops: schema.array(
+          "Ordered tour stops, at most 8.",
+          schema.object(
+            {
+              ref: refField,
+              selector: schema.string("A CSS selector for the stop.", NON_EMPTY),
+              text: schema.string("Visible text or project hint for the stop.", NON_EMPTY),
+              sectionId: schema.string("Section id or alias for the stop.", NON_EMPTY),
+              caption: schema.string("One or two short sentences shown next to the stop."),
+            },
+            {
+              required: ["caption"],
+              requireOneOf: [["ref", "selector", "text", "sectionId"]],
+            }
+          )
+        ),
+        autoAdvanceSeconds: schema.number(
+          "Optional seconds to wait before moving to the next stop automatically, 2 to 20."
+        ),
       },
-      required: [],
-    },
+      { required: ["stops"] }
+    ),
   },
-];
+  read_element: {
+    description:
+      "Read the full text of one element, such as a project card or section, when the snapshot text is cut short. Does not change the page.",
+    parameters: schema.object(
+      {
+        ref: refField,
+        selector: schema.string("A CSS selector for the element to read.", NON_EMPTY),
+        text: schema.string("Visible text or project hint to find the element.", NON_EMPTY),
+        sectionId: schema.string("Section id or alias to read, for example about.", NON_EMPTY),
+      },
+      { requireOneOf: [["ref", "selector", "text", "sectionId"]] }
+    ),
+  },
+  find_in_page: {
+    description:
+      "Search the whole page for a word or phrase and return ranked matches with their refs, sections, and surrounding text. Does not change the page.",
+    parameters: schema.object(
+      {
+        query: schema.string("Word or phrase to search for.", NON_EMPTY),
+        limit: schema.number("Maximum number of matches to return, 1 to 10. Defaults to 5."),
+      },
+      { required: ["query"] }
+    ),
+  },
+  list_links: {
+    description:
+      "List links on the page with their resolved destinations, whether they leave the site, and whether they open a new tab. Does not change the page.",
+    parameters: schema.object({
+      sectionId: schema.string("Only list links inside this section id or alias.", NON_EMPTY),
+      kind: schema.string(
+        "Only list links of this kind: in-page, same-site, or external.",
+        NON_EMPTY
+      ),
+    }),
+  },
+  undo_last_action: {
+    description:
+      "Undo earlier page actions taken by the assistant, such as restoring overwritten form fields or the previous scroll position and URL hash. Use when the user says to put things back.",
+    parameters: schema.object({
+      count: schema.number("How many recent actions to undo, newest first. Defaults to 1."),
+    }),
+  },
+} satisfies Record<BuiltinToolName, { description: string; parameters: ObjectSchema }>;
+
+export type ToolArgs<Name extends BuiltinToolName> = InferField<
+  (typeof BUILTIN_TOOL_SCHEMAS)[Name]["parameters"]
+>;
+
+const BUILTIN_TOOL_NAMES = Object.keys(BUILTIN_TOOL_SCHEMAS) as BuiltinToolName[];
+
+export const TOOL_DECLARATIONS: ToolDeclaration[] = BUILTIN_TOOL_NAMES.map((name) =>
+  toToolDeclaration({ name, ...BUILTIN_TOOL_SCHEMAS[name] })
+);
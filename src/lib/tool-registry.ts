@@ -0,0 +1,292 @@
+import { useEffect, useId, useRef, useSyncExternalStore } from "react";
+import {
+  DRY_RUN_PREFIX,
+  TOOL_NAME_PATTERN,
+  toToolDeclaration,
+  type ObjectSchema,
+  type PreviewTarget,
+  type ToolAssessment,
+  type ToolDeclaration,
+  type ToolDefinition,
+  type ToolPolicy,
+  type ToolPreview,
+  type ToolRisk,
+} from "@/lib/tool-definitions";
+import { BUILTIN_TOOLS } from "@/lib/tool-runner";
+import { validateArgs, type InferField } from "@/lib/tool-schema";
+import type { ToolCall, ToolResult } from "@/lib/types";
+
+export class ToolRegistryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ToolRegistryError";
+  }
+}
+
+export interface ExecuteOptions {
+  dryRun?: boolean;
+}
+
+export interface ToolPreviewOutcome {
+  result: ToolResult;
+  targets: PreviewTarget[];
+}
+
+type PreparedCall =
+  | { ok: true; tool: ToolDefinition; args: InferField<ObjectSchema> }
+  | { ok: false; result: ToolResult };
+
+const RISKS: ToolRisk[] = ["auto", "confirm", "deny"];
+
+const registry = new Map<string, ToolDefinition>(
+  BUILTIN_TOOLS.map((tool) => [tool.name, tool])
+);
+const registrationErrors = new Map<string, ToolRegistryError>();
+const registrationListeners = new Set<() => void>();
+
+function failure(call: ToolCall, output: string): ToolResult {
+  return {
+    toolCallId: call.id,
+    name: call.name,
+    success: false,
+    output,
+  };
+}
+
+function isAvailable(tool: ToolDefinition): boolean {
+  try {
+    return tool.isAvailable ? tool.isAvailable() : true;
+  } catch {
+    return false;
+  }
+}
+
+export function registerTool<Parameters extends ObjectSchema>(
+  definition: ToolDefinition<Parameters>
+): () => void {
+  if (!TOOL_NAME_PATTERN.test(definition.name)) {
+    throw new ToolRegistryError(
+      `Tool name "${definition.name}" must start with a letter or underscore and use only letters, digits, "_" or "-".`
+    );
+  }
+
+  if (registry.has(definition.name)) {
+    throw new ToolRegistryError(`Tool "${definition.name}" is already registered.`);
+  }
+
+  const tool = definition as ToolDefinition;
+  registry.set(tool.name, tool);
+
+  return () => {
+    if (registry.get(tool.name) === tool) {
+      registry.delete(tool.name);
+    }
+  };
+}
+
+function setRegistrationError(owner: string, error: ToolRegistryError | null): void {
+  if ((registrationErrors.get(owner) ?? null) === error) {
+    return;
+  }
+
+  if (error) {
+    registrationErrors.set(owner, error);
+  } else {
+    registrationErrors.delete(owner);
+  }
+  registrationListeners.forEach((listener) => listener());
+}
+
+function subscribeRegistrationErrors(listener: () => void): () => void {
+  registrationListeners.add(listener);
+  return () => {
+    registrationListeners.delete(listener);
+  };
+}
+
+// Registers a tool while the component is mounted and returns the
+// registration error, if any, instead of throwing during commit. The tool is
+// keyed by name: description and parameters are read when it registers, and
+// execute, isAvailable, assess, and preview always call the latest definition,
+// so an inline definition does not re-register on every render. Keep the name
+// stable; changing it registers a new tool.
+export function useRegisteredTool<Parameters extends ObjectSchema>(
+  definition: ToolDefinition<Parameters>
+): ToolRegistryError | null {
+  const owner = useId();
+  const latest = useRef(definition);
+  const { name } = definition;
+  const error = useSyncExternalStore(
+    subscribeRegistrationErrors,
+    () => registrationErrors.get(owner) ?? null,
+    () => null
+  );
+
+  useEffect(() => {
+    latest.current = definition;
+  });
+
+  useEffect(() => {
+    const registered = latest.current;
+    const { assess, preview } = registered;
+    const tool: ToolDefinition<Parameters> = {
+      ...registered,
+      execute: (call, args) => latest.current.execute(call, args),
+      isAvailable: () => latest.current.isAvailable?.() ?? true,
+      assess: assess && ((call, args) => (latest.current.assess ?? assess)(call, args)),
+      preview: preview && ((call, args) => (latest.current.preview ?? preview)(call, args)),
+    };
+
+    let unregister: (() => void) | null = null;
+    try {
+      unregister = registerTool(tool);
+    } catch (registerError) {
+      if (!(registerError instanceof ToolRegistryError)) {
+        throw registerError;
+      }
+      setRegistrationError(owner, registerError);
+    }
+
+    return () => {
+      unregister?.();
+      setRegistrationError(owner, null);
+    };
+  }, [owner, name]);
+
+  return error;
+}
+
+export function getToolManifest(): ToolDeclaration[] {
+  return Array.from(registry.values()).filter(isAvailable).map(toToolDeclaration);
+}
+
+export function parseToolPolicy(raw: string | undefined): ToolPolicy {
+  const policy: ToolPolicy = {};
+
+  for (const entry of (raw ?? "").split(",")) {
+    const [name, risk] = entry.split("=").map((part) => part.trim());
+    if (name && RISKS.includes(risk as ToolRisk)) {
+      policy[name] = risk as ToolRisk;
+    }
+  }
+
+  return policy;
+}
+
+function inspectToolCall(call: ToolCall): ToolAssessment {
+  const tool = registry.get(call.name);
+  if (!tool || !isAvailable(tool)) {
+    return { risk: "auto", target: "" };
+  }
+
+  const validation = validateArgs(tool.parameters, call.args);
+  if (!validation.ok) {
+    return { risk: "auto", target: "" };
+  }
+
+  if (!tool.assess) {
+    return { risk: tool.risk ?? "auto", target: "" };
+  }
+
+  try {
+    return tool.assess(call, validation.value);
+  } catch {
+    return { risk: "confirm", target: "", reason: "Could not check what this action will do." };
+  }
+}
+
+export function assessToolCall(call: ToolCall, policy: ToolPolicy = {}): ToolAssessment {
+  const assessment = inspectToolCall(call);
+  const override = policy[call.name];
+
+  if (override && override !== assessment.risk) {
+    return { ...assessment, risk: override, reason: `Tool policy sets ${call.name} to ${override}.` };
+  }
+
+  return assessment;
+}
+
+function prepareToolCall(call: ToolCall): PreparedCall {
+  const tool = registry.get(call.name);
+  if (!tool) {
+    return { ok: false, result: failure(call, `Unknown tool "${call.name}".`) };
+  }
+
+  if (!isAvailable(tool)) {
+    return {
+      ok: false,
+      result: failure(call, `Tool "${call.name}" is not available on this page right now.`),
+    };
+  }
+
+  const validation = validateArgs(tool.parameters, call.args);
+  if (!validation.ok) {
+    return {
+      ok: false,
+      result: failure(
+        call,
+        `Invalid arguments for ${call.name}: ${validation.errors.join("; ")}.`
+      ),
+    };
+  }
+
+  return { ok: true, tool, args: validation.value };
+}
+
+export async function previewToolCall(call: ToolCall): Promise<ToolPreviewOutcome> {
+  const prepared = prepareToolCall(call);
+  if (!prepared.ok) {
+    return { result: prepared.result, targets: [] };
+  }
+
+  const { tool, args } = prepared;
+  let preview: ToolPreview;
+  try {
+    if (tool.preview) {
+      preview = tool.preview(call, args);
+    } else if (tool.readOnly) {
+      const { success, output } = await tool.execute(call, args);
+      preview = { success, summary: output, targets: [] };
+    } else {
+      preview = {
+        success: true,
+        summary: `Would run ${call.name} with ${JSON.stringify(args)}.`,
+        targets: [],
+      };
+    }
+  } catch (error) {
+    const text = error instanceof Error ? error.message : "Unknown preview error.";
+    return { result: failure(call, `Could not preview ${call.name}: ${text}`), targets: [] };
+  }
+
+  return {
+    result: {
+      toolCallId: call.id,
+      name: call.name,
+      success: preview.success,
+      output: `${DRY_RUN_PREFIX} ${preview.summary}`,
+    },
+    targets: preview.targets,
+  };
+}
+
+export async function executeToolCall(
+  call: ToolCall,
+  options: ExecuteOptions = {}
+): Promise<ToolResult> {
+  if (options.dryRun) {
+    return (await previewToolCall(call)).result;
+  }
+
+  const prepared = prepareToolCall(call);
+  if (!prepared.ok) {
+    return prepared.result;
+  }
+
+  try {
+    return await prepared.tool.execute(call, prepared.args);
+  } catch (error) {
+    const text = error instanceof Error ? error.message : "Unknown error.";
+    return failure(call, `Could not run ${call.name}: ${text}`);
+  }
+}
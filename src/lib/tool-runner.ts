@@ -1,15 +1,58 @@
-import type { ToolCall, ToolResult } from "@/lib/types";
+import { buildSelector, getViewportPosition, normalizeText } from "@/lib/dom-helpers";
+import { resolveElementRef } from "@/lib/element-refs";
+import { listInvalidFields, readFieldState } from "@/lib/form-state";
+import { exitTour, startTour, type TourStop } from "@/lib/guided-tour";
+import {
+  HIGHLIGHT_INTENTS,
+  showAnnotations,
+  type HighlightIntent,
+} from "@/lib/highlight-overlay";
+import { findInPage, listLinks, readFullText, type LinkKind } from "@/lib/page-inspection";
+import { waitForScrollSettled, type SettledScroll } from "@/lib/scroll-settle";
+import { containsPhrase, SECTION_ALIASES } from "@/lib/section-aliases";
+import {
+  BUILTIN_TOOL_SCHEMAS,
+  defineTool,
+  type MatchStrategy,
+  type ObjectSchema,
+  type PreviewTarget,
+  type ToolArgs,
+  type ToolAssessment,
+  type ToolDefinition,
+  type ToolPreview,
+} from "@/lib/tool-definitions";
+import type {
+  BuiltinToolName,
+  ToolCall,
+  ToolResult,
+  ViewportPosition,
+} from "@/lib/types";
+import { describeUndoOutcomes, peekUndo, recordUndo, undoLast } from "@/lib/undo-stack";
 
 const HIGHLIGHT_CLASS = "co-highlight-pulse";
 const CHAT_UI_SELECTOR = "[data-chat-ui='true']";
-
-const SECTION_ALIASES: Record<string, string[]> = {
-  hero: ["hero", "home", "top", "intro", "landing"],
-  about: ["about", "bio", "background", "profile"],
-  projects: ["projects", "portfolio", "work", "case studies", "case-study"],
-  skills: ["skills", "tech", "stack", "expertise"],
-  contact: ["contact", "hire", "email", "reach", "message"],
-};
+const TEXT_FIELD_SELECTOR = "input, textarea";
+const CHECKABLE_SELECTOR = "input[type='checkbox'], input[type='radio']";
+const NON_TEXT_INPUT_TYPES = [
+  "button",
+  "checkbox",
+  "color",
+  "file",
+  "hidden",
+  "image",
+  "radio",
+  "range",
+  "reset",
+  "submit",
+];
+const DEFAULT_FORM_SELECTOR = "#contact-form";
+const MAX_READ_CHARS = 4000;
+const DEFAULT_SEARCH_LIMIT = 5;
+const MAX_SEARCH_LIMIT = 10;
+const LINK_KINDS: LinkKind[] = ["in-page", "same-site", "external"];
+const MAX_TOUR_STOPS = 8;
+const MAX_HIGHLIGHT_TARGETS = 8;
+const DEFAULT_HIGHLIGHT_MS = 2600;
 
 const ORDINAL_TO_INDEX: Record<string, number> = {
   first: 1,
@@ -19,47 +62,82 @@ const ORDINAL_TO_INDEX: Record<string, number> = {
   fifth: 5,
 };
 
-function isObject(value: unknown): value is Record<string, unknown> {
-  return typeof value === "object" && value !== null && !Array.isArray(value);
+class StaleRefError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "StaleRefError";
+  }
 }
 
-function normalize(value: string): string {
-  return value.toLowerCase().replace(/\s+/g, " ").trim();
+interface ElementTarget {
+  ref?: string;
+  selector?: string;
+  text?: string;
+  sectionId?: string;
 }
 
-function readString(
-  args: Record<string, unknown>,
-  ...keys: string[]
-): string | null {
-  for (const key of keys) {
-    const value = args[key];
-    if (typeof value === "string" && value.trim()) {
-      return value.trim();
-    }
-  }
+type ToolExecutor<Name extends BuiltinToolName> = (
+  call: ToolCall,
+  args: ToolArgs<Name>
+) => ToolResult | Promise<ToolResult>;
 
-  return null;
+type ToolAssessor<Name extends BuiltinToolName> = (
+  call: ToolCall,
+  args: ToolArgs<Name>
+) => ToolAssessment;
+
+type ToolPreviewer<Name extends BuiltinToolName> = (
+  call: ToolCall,
+  args: ToolArgs<Name>
+) => ToolPreview;
+
+interface ElementMatch {
+  element: HTMLElement;
+  matchedBy: MatchStrategy;
 }
 
-function readNumber(
-  args: Record<string, unknown>,
-  ...keys: string[]
-): number | null {
-  for (const key of keys) {
-    const value = args[key];
-    if (typeof value === "number" && Number.isFinite(value)) {
-      return value;
-    }
+interface ViewState {
+  x: number;
+  y: number;
+  hash: string;
+}
 
-    if (typeof value === "string" && value.trim()) {
-      const parsed = Number(value);
-      if (Number.isFinite(parsed)) {
-        return parsed;
-      }
-    }
-  }
+interface FieldRestore {
+  fieldName: string;
+  restore(): void;
+}
 
-  return null;
+interface ControlTarget {
+  ref?: string;
+  selector?: string;
+  fieldName?: string;
+}
+
+interface OptionChoice {
+  select: HTMLSelectElement;
+  option: HTMLOptionElement;
+  matchedBy: MatchStrategy;
+}
+
+interface HighlightPlan {
+  targets: (ElementMatch & { label: string })[];
+  skipped: string[];
+}
+
+interface TourPlan {
+  stops: (TourStop & { matchedBy: MatchStrategy })[];
+  skipped: string[];
+}
+
+interface FieldUpdate {
+  fieldName: string;
+  value: string;
+  selector: string | null;
+  ref: string | null;
+}
+
+function normalize(value: string): string {
+  return value.toLowerCase().replace(/\s+/g, " ").trim();
 }
 
 function safeQuery(selector: string): HTMLElement | null {
@@ -118,7 +196,7 @@ function resolveSectionFromHint(hint: string): HTMLElement | null {
   }
 
   for (const [id, aliases] of Object.entries(SECTION_ALIASES)) {
-    if (aliases.some((alias) => normalizedHint.includes(alias))) {
+    if (aliases.some((alias) => containsPhrase(normalizedHint, alias))) {
       const candidate = document.getElementById(id);
       if (candidate) {
         return candidate;
@@ -137,9 +215,10 @@ function resolveSectionFromHint(hint: string): HTMLElement | null {
 }
 
 function findProjectCardByHint(hint: string): HTMLElement | null {
+  // Cards a page filter hid are not what the user is looking at.
   const cards = Array.from(
     document.querySelectorAll<HTMLElement>("[data-project-card]")
-  );
+  ).filter((card) => !card.closest("[hidden]"));
   if (cards.length === 0) {
     return null;
   }
@@ -200,11 +279,12 @@ function findByText(text: string): HTMLElement | null {
   return ranked[0]?.element ?? null;
 }
 
-function findInputByFieldName(fieldName: string): HTMLElement | null {
+function findInputByFieldName(
+  fieldName: string,
+  query = TEXT_FIELD_SELECTOR
+): HTMLElement | null {
   const normalizedField = normalize(fieldName);
-  const candidates = Array.from(
-    document.querySelectorAll<HTMLElement>("input, textarea")
-  );
+  const candidates = Array.from(document.querySelectorAll<HTMLElement>(query));
 
   for (const candidate of candidates) {
     if (isInsideChatUi(candidate)) {
@@ -228,46 +308,101 @@ function findInputByFieldName(fieldName: string): HTMLElement | null {
   return null;
 }
 
-function findElement(args: Record<string, unknown>): HTMLElement | null {
-  const sectionHint = readString(args, "sectionId", "section", "targetSection");
+function findElementByRef(ref: string): HTMLElement {
+  const lookup = resolveElementRef(ref);
+
+  if (lookup.status === "found") {
+    return lookup.element;
+  }
+
+  if (lookup.status === "stale") {
+    throw new StaleRefError(
+      `Element ref \"${lookup.ref}\" is stale: that element is no longer on the page. Use a ref from the latest page snapshot.`
+    );
+  }
+
+  throw new StaleRefError(
+    `Element ref \"${lookup.ref}\" does not exist in the latest page snapshot.`
+  );
+}
+
+function locateElement(target: ElementTarget): ElementMatch | null {
+  if (target.ref) {
+    return { element: findElementByRef(target.ref.trim()), matchedBy: "ref" };
+  }
+
+  const sectionHint = target.sectionId?.trim();
   if (sectionHint) {
     const section = resolveSectionFromHint(sectionHint);
     if (section) {
-      return section;
+      return { element: section, matchedBy: "section" };
     }
   }
 
-  const selector = readString(args, "selector");
+  const selector = target.selector?.trim();
   if (selector) {
     const bySelector = safeQuery(selector);
     if (bySelector && !isInsideChatUi(bySelector)) {
-      return bySelector;
+      return { element: bySelector, matchedBy: "selector" };
     }
   }
 
-  const textHint = readString(args, "text", "label", "target", "projectName");
+  const textHint = target.text?.trim();
   if (textHint) {
     const projectCard = findProjectCardByHint(textHint);
     if (projectCard) {
-      return projectCard;
+      return { element: projectCard, matchedBy: "project card" };
     }
 
     const section = resolveSectionFromHint(textHint);
     if (section) {
-      return section;
+      return { element: section, matchedBy: "section" };
     }
 
     const byText = findByText(textHint);
     if (byText) {
-      return byText;
+      return { element: byText, matchedBy: "text" };
     }
   }
 
   return null;
 }
 
+function findElement(target: ElementTarget): HTMLElement | null {
+  return locateElement(target)?.element ?? null;
+}
+
+function toPreviewTarget(match: ElementMatch, value?: string): PreviewTarget {
+  const rect = match.element.getBoundingClientRect();
+  const target: PreviewTarget = {
+    description: describeElement(match.element),
+    selector: buildSelector(match.element),
+    matchedBy: match.matchedBy,
+    box: {
+      x: Math.round(rect.left + window.scrollX),
+      y: Math.round(rect.top + window.scrollY),
+      width: Math.round(rect.width),
+      height: Math.round(rect.height),
+    },
+  };
+
+  if (value !== undefined) {
+    target.value = value;
+  }
+
+  return target;
+}
+
+function describeMatch(target: PreviewTarget): string {
+  return `${target.description} (matched by ${target.matchedBy}, ${target.selector})`;
+}
+
 function setFieldValue(element: HTMLElement, value: string): void {
-  if (element instanceof HTMLInputElement || element instanceof HTMLTextAreaElement) {
+  if (
+    element instanceof HTMLInputElement ||
+    element instanceof HTMLTextAreaElement ||
+    element instanceof HTMLSelectElement
+  ) {
     const descriptor = Object.getOwnPropertyDescriptor(
       Object.getPrototypeOf(element),
       "value"
@@ -285,6 +420,27 @@ function setFieldValue(element: HTMLElement, value: string): void {
   }
 }
 
+function captureViewState(): ViewState {
+  return { x: window.scrollX, y: window.scrollY, hash: window.location.hash };
+}
+
+function restoreViewState(state: ViewState): void {
+  if (window.location.hash !== state.hash) {
+    const { pathname, search } = window.location;
+    history.replaceState(null, "", state.hash || `${pathname}${search}`);
+  }
+
+  window.scrollTo({ left: state.x, top: state.y, behavior: "smooth" });
+}
+
+function recordViewUndo(call: ToolCall, previous: ViewState, label: string): void {
+  recordUndo({
+    toolCallId: call.id,
+    label,
+    undo: () => restoreViewState(previous),
+  });
+}
+
 function result(call: ToolCall, success: boolean, output: string): ToolResult {
   return {
     toolCallId: call.id,
@@ -294,43 +450,103 @@ function result(call: ToolCall, success: boolean, output: string): ToolResult {
   };
 }
 
-function runScrollBy(call: ToolCall, args: Record<string, unknown>): ToolResult {
-  const delta = readNumber(args, "delta", "amount");
-  if (delta === null) {
-    return result(call, false, "Missing numeric delta argument.");
+const POSITION_NOTES: Record<ViewportPosition, string> = {
+  above: "the target is above the viewport",
+  in_viewport: "the target is in view",
+  below: "the target is below the viewport",
+};
+
+// Waits for smooth scrolling to stop so the reported position is where the
+// page actually ended up, not where it was when the scroll started.
+// Callers that already waited pass the settled position in.
+async function settledResult(
+  call: ToolCall,
+  success: boolean,
+  output: string,
+  target?: HTMLElement | null,
+  settledScroll?: SettledScroll
+): Promise<ToolResult> {
+  const { scroll, settled } = settledScroll ?? (await waitForScrollSettled());
+  const notes = [`scroll is at ${scroll.y}px`];
+
+  if (target?.isConnected) {
+    notes.push(POSITION_NOTES[getViewportPosition(target)]);
   }
+  if (!settled) {
+    notes.push("the page was still scrolling");
+  }
+
+  return result(call, success, `${output} Now ${notes.join(", ")}.`);
+}
 
+async function runScrollBy(call: ToolCall, args: ToolArgs<"scroll_by">): Promise<ToolResult> {
+  const { delta } = args;
+  const startY = Math.round(window.scrollY);
+
+  recordViewUndo(call, captureViewState(), `scroll back to ${startY}px`);
   window.scrollBy({ top: delta, behavior: "smooth" });
-  return result(
-    call,
-    true,
-    delta >= 0
-      ? `Scrolled down by ${Math.round(delta)} pixels.`
-      : `Scrolled up by ${Math.round(Math.abs(delta))} pixels.`
-  );
+
+  const settledScroll = await waitForScrollSettled();
+  const moved = settledScroll.scroll.y - startY;
+  const direction = delta >= 0 ? "down" : "up";
+  let output = `Scrolled ${direction} by ${Math.abs(moved)} pixels.`;
+
+  if (moved === 0 && Math.round(delta) !== 0) {
+    output = `Already at the ${delta >= 0 ? "bottom" : "top"} of the page; nothing to scroll.`;
+  } else if (Math.abs(moved) < Math.abs(Math.round(delta)) - 1) {
+    output = `Scrolled ${direction} by ${Math.abs(moved)} of ${Math.round(Math.abs(delta))} pixels and reached the ${delta >= 0 ? "bottom" : "top"} of the page.`;
+  }
+
+  return settledResult(call, true, output, null, settledScroll);
 }
 
-function runNavigateToSection(
-  call: ToolCall,
-  args: Record<string, unknown>
-): ToolResult {
-  const sectionHint = readString(args, "sectionId", "section", "target");
-  if (!sectionHint) {
-    return result(call, false, "Missing target section id.");
+function previewScrollBy(_call: ToolCall, args: ToolArgs<"scroll_by">): ToolPreview {
+  const maxY = Math.max(0, document.documentElement.scrollHeight - window.innerHeight);
+  const nextY = Math.min(maxY, Math.max(0, window.scrollY + args.delta));
+
+  return {
+    success: true,
+    summary: `Would scroll from ${Math.round(window.scrollY)}px to ${Math.round(nextY)}px.`,
+    targets: [],
+  };
+}
+
+function previewNavigateToSection(
+  _call: ToolCall,
+  args: ToolArgs<"navigate_to_section">
+): ToolPreview {
+  const sectionHint = args.sectionId.trim();
+  const target = resolveSectionFromHint(sectionHint);
+  if (!target) {
+    return { success: false, summary: `Section \"${sectionHint}\" was not found.`, targets: [] };
   }
 
+  const preview = toPreviewTarget({ element: target, matchedBy: "section" });
+  return {
+    success: true,
+    summary: `Would move to section \"${target.id || sectionHint}\": ${describeMatch(preview)}.`,
+    targets: [preview],
+  };
+}
+
+async function runNavigateToSection(
+  call: ToolCall,
+  args: ToolArgs<"navigate_to_section">
+): Promise<ToolResult> {
+  const sectionHint = args.sectionId.trim();
   const target = resolveSectionFromHint(sectionHint);
   if (!target) {
     return result(call, false, `Section \"${sectionHint}\" was not found.`);
   }
 
+  recordViewUndo(call, captureViewState(), `return from section "${target.id || sectionHint}"`);
   target.scrollIntoView({ behavior: "smooth", block: "start" });
   if (target.id) {
     history.replaceState(null, "", `#${target.id}`);
   }
   addHighlight(target);
 
-  return result(call, true, `Moved to section \"${target.id || sectionHint}\".`);
+  return settledResult(call, true, `Moved to section \"${target.id || sectionHint}\".`, target);
 }
 
 function chooseLinkFromProjectCard(
@@ -358,21 +574,93 @@ function chooseLinkFromProjectCard(
   return links[0];
 }
 
-function runClickElement(call: ToolCall, args: Record<string, unknown>): ToolResult {
-  let target = findElement(args);
+function locateClickTarget(args: ToolArgs<"click_element">): ElementMatch | null {
+  const match = locateElement(args);
+
+  if (match?.element.matches("[data-project-card]")) {
+    const link = chooseLinkFromProjectCard(match.element, args.text?.trim() ?? null);
+    return link ? { element: link, matchedBy: match.matchedBy } : match;
+  }
+
+  return match;
+}
+
+function resolveClickTarget(args: ToolArgs<"click_element">): HTMLElement | null {
+  return locateClickTarget(args)?.element ?? null;
+}
+
+function assessClickElement(
+  _call: ToolCall,
+  args: ToolArgs<"click_element">
+): ToolAssessment {
+  const target = resolveClickTarget(args);
   if (!target) {
-    return result(call, false, "Could not find an element to click.");
+    return { risk: "auto", target: "No matching element" };
   }
 
-  const hint = readString(args, "text", "label", "target");
+  const description = describeElement(target);
 
-  if (target.matches("[data-project-card]")) {
-    const projectLink = chooseLinkFromProjectCard(target, hint);
-    if (projectLink) {
-      target = projectLink;
+  if (target instanceof HTMLAnchorElement && target.href) {
+    const url = new URL(target.href, window.location.href);
+    if (url.origin !== window.location.origin || target.target === "_blank") {
+      return {
+        risk: "confirm",
+        target: `${description} -> ${url.href}`,
+        reason: "Opens a page outside this site.",
+      };
     }
   }
 
+  if (target instanceof HTMLButtonElement && target.type === "submit" && target.form) {
+    return { risk: "confirm", target: description, reason: "Submits a form." };
+  }
+
+  return { risk: "auto", target: description };
+}
+
+function previewClickElement(
+  _call: ToolCall,
+  args: ToolArgs<"click_element">
+): ToolPreview {
+  const match = locateClickTarget(args);
+  if (!match) {
+    return { success: false, summary: "Could not find an element to click.", targets: [] };
+  }
+
+  const preview = toPreviewTarget(match);
+  const { element } = match;
+  if (element instanceof HTMLButtonElement && element.disabled) {
+    return {
+      success: false,
+      summary: `Target button is disabled: ${describeMatch(preview)}.`,
+      targets: [preview],
+    };
+  }
+
+  const href = element instanceof HTMLAnchorElement ? element.getAttribute("href") : null;
+  const action = href ? `Would follow ${href} from` : "Would click";
+  return { success: true, summary: `${action} ${describeMatch(preview)}.`, targets: [preview] };
+}
+
+async function runClickElement(
+  call: ToolCall,
+  args: ToolArgs<"click_element">
+): Promise<ToolResult> {
+  const target = resolveClickTarget(args);
+  if (!target) {
+    return result(call, false, "Could not find an element to click.");
+  }
+
+  const href = target instanceof HTMLAnchorElement ? (target.getAttribute("href") ?? "") : "";
+  const section = href.startsWith("#") ? resolveSectionFromHint(href) : null;
+
+  // Every path scrolls, so the view is restorable even when the click itself
+  // is not.
+  recordViewUndo(
+    call,
+    captureViewState(),
+    section ? `return from ${href}` : `scroll back from ${describeElement(target)}`
+  );
   target.scrollIntoView({ behavior: "smooth", block: "center" });
   addHighlight(target);
 
@@ -380,120 +668,883 @@ function runClickElement(call: ToolCall, args: Record<string, unknown>): ToolRes
     return result(call, false, "Target button is disabled and cannot be clicked.");
   }
 
-  if (target instanceof HTMLAnchorElement) {
-    const href = target.getAttribute("href") ?? "";
-    if (href.startsWith("#")) {
-      const section = resolveSectionFromHint(href);
-      if (section) {
-        section.scrollIntoView({ behavior: "smooth", block: "start" });
-        addHighlight(section);
-        history.replaceState(null, "", href);
-        return result(call, true, `Moved to ${href}.`);
-      }
-    }
+  if (section) {
+    section.scrollIntoView({ behavior: "smooth", block: "start" });
+    addHighlight(section);
+    history.replaceState(null, "", href);
+    return settledResult(call, true, `Moved to ${href}.`, section);
   }
 
   target.click();
-  return result(call, true, `Clicked ${describeElement(target)}.`);
+  return settledResult(call, true, `Clicked ${describeElement(target)}.`, target);
+}
+
+function resolveHighlightPlan(args: ToolArgs<"highlight_element">): HighlightPlan {
+  const plan: HighlightPlan = { targets: [], skipped: [] };
+  const requested = args.targets?.length
+    ? args.targets.slice(0, MAX_HIGHLIGHT_TARGETS)
+    : [args];
+
+  requested.forEach((target, index) => {
+    const match =
+      requested.length === 1
+        ? locateElement(target)
+        : withStaleRefs(
+            () => locateElement(target),
+            () => null
+          );
+    const hint = target.ref ?? target.selector ?? target.sectionId ?? target.text ?? "";
+
+    if (!match) {
+      plan.skipped.push(requested.length === 1 ? `"${hint}"` : `target ${index + 1} ("${hint}")`);
+      return;
+    }
+
+    if (!plan.targets.some((item) => item.element === match.element)) {
+      plan.targets.push({ ...match, label: target.label?.trim() ?? "" });
+    }
+  });
+
+  return plan;
+}
+
+function readHighlightIntent(args: ToolArgs<"highlight_element">): HighlightIntent | null {
+  const intent = (args.intent?.trim().toLowerCase() ?? "info") as HighlightIntent;
+  return HIGHLIGHT_INTENTS.includes(intent) ? intent : null;
+}
+
+function describeHighlights(plan: HighlightPlan): string {
+  const targets = plan.targets
+    .map((target) =>
+      target.label
+        ? `${describeElement(target.element)} labeled "${target.label}"`
+        : describeElement(target.element)
+    )
+    .join(", ");
+  const skipped =
+    plan.skipped.length > 0 ? ` Could not find ${plan.skipped.join(", ")}.` : "";
+
+  return `${targets}.${skipped}`;
 }
 
-function runHighlightElement(
+async function runHighlightElement(
   call: ToolCall,
-  args: Record<string, unknown>
-): ToolResult {
-  const target = findElement(args);
-  if (!target) {
+  args: ToolArgs<"highlight_element">
+): Promise<ToolResult> {
+  const intent = readHighlightIntent(args);
+  if (!intent) {
+    return result(
+      call,
+      false,
+      `Invalid arguments for highlight_element: intent: expected one of ${HIGHLIGHT_INTENTS.join(", ")}.`
+    );
+  }
+
+  const plan = resolveHighlightPlan(args);
+  if (plan.targets.length === 0) {
     return result(call, false, "Could not find an element to highlight.");
   }
 
-  target.scrollIntoView({ behavior: "smooth", block: "center" });
-  addHighlight(target);
-  return result(call, true, `Highlighted ${describeElement(target)}.`);
+  const durationMs = args.persistent
+    ? null
+    : args.durationSeconds
+      ? Math.min(60, Math.max(1, args.durationSeconds)) * 1000
+      : DEFAULT_HIGHLIGHT_MS;
+
+  plan.targets[0].element.scrollIntoView({ behavior: "smooth", block: "center" });
+  showAnnotations(
+    plan.targets.map(({ element, label }) => ({ element, label, intent })),
+    durationMs
+  );
+
+  const until = durationMs === null ? " until the user dismisses them" : "";
+  return settledResult(
+    call,
+    true,
+    `Highlighted${until}: ${describeHighlights(plan)}`,
+    plan.targets[0].element
+  );
 }
 
-function fillSingleField(
-  call: ToolCall,
-  fieldName: string,
-  value: string,
-  selector: string | null
-): string {
-  let target: HTMLElement | null = null;
+function previewHighlightElement(
+  _call: ToolCall,
+  args: ToolArgs<"highlight_element">
+): ToolPreview {
+  const plan = resolveHighlightPlan(args);
+  if (plan.targets.length === 0) {
+    return { success: false, summary: "Could not find an element to highlight.", targets: [] };
+  }
 
-  if (selector) {
-    target = safeQuery(selector);
+  const targets = plan.targets.map((target) =>
+    toPreviewTarget(target, target.label || undefined)
+  );
+  return {
+    success: readHighlightIntent(args) !== null,
+    summary: `Would highlight ${targets.map(describeMatch).join(", ")}.`,
+    targets,
+  };
+}
+
+function isTextField(element: HTMLElement): element is HTMLInputElement | HTMLTextAreaElement {
+  return (
+    element instanceof HTMLTextAreaElement ||
+    (element instanceof HTMLInputElement && !NON_TEXT_INPUT_TYPES.includes(element.type))
+  );
+}
+
+function describeNotTextField(element: HTMLElement): string {
+  const hint =
+    element instanceof HTMLSelectElement
+      ? " Use select_option for dropdowns."
+      : element.matches(CHECKABLE_SELECTOR)
+        ? " Use set_checked for checkboxes and radio buttons."
+        : "";
+  return `${describeElement(element)} is not a text field, so it was not filled.${hint}`;
+}
+
+function locateFillTarget(update: FieldUpdate): ElementMatch | null {
+  if (update.ref) {
+    return { element: findElementByRef(update.ref), matchedBy: "ref" };
   }
 
-  if (!target) {
-    target = findInputByFieldName(fieldName);
+  const bySelector = update.selector ? safeQuery(update.selector) : null;
+  if (bySelector) {
+    return { element: bySelector, matchedBy: "selector" };
+  }
+
+  const byFieldName = findInputByFieldName(update.fieldName);
+  return byFieldName ? { element: byFieldName, matchedBy: "field name" } : null;
+}
+
+function findFillTarget(update: FieldUpdate): HTMLElement | null {
+  return locateFillTarget(update)?.element ?? null;
+}
+
+function listFieldUpdates(args: ToolArgs<"fill_input">): FieldUpdate[] {
+  const selector = args.selector?.trim() ?? null;
+
+  if (args.values) {
+    return Object.entries(args.values)
+      .filter((entry): entry is [string, string] => typeof entry[1] === "string")
+      .map(([fieldName, value]) => ({ fieldName, value, selector, ref: null }));
   }
 
+  return [
+    {
+      fieldName: args.fieldName?.trim() ?? "input",
+      value: args.value?.trim() ?? "",
+      selector,
+      ref: args.ref?.trim() ?? null,
+    },
+  ];
+}
+
+function fillSingleField(update: FieldUpdate, restores: FieldRestore[]): string {
+  const target = findFillTarget(update);
   if (!target) {
-    throw new Error(`Could not find input field for \"${fieldName}\".`);
+    throw new Error(`Could not find input field for \"${update.fieldName}\".`);
   }
 
-  setFieldValue(target, value);
+  if (!isTextField(target)) {
+    throw new Error(describeNotTextField(target));
+  }
+
+  const previous = target.value;
+  restores.push({
+    fieldName: update.fieldName,
+    restore: () => setFieldValue(target, previous),
+  });
+
+  setFieldValue(target, update.value);
   addHighlight(target);
-  return `${fieldName} updated`;
+  return `${update.fieldName} updated`;
 }
 
-function runFillInput(call: ToolCall, args: Record<string, unknown>): ToolResult {
-  const selector = readString(args, "selector");
+function assessFillInput(
+  _call: ToolCall,
+  args: ToolArgs<"fill_input">
+): ToolAssessment {
+  const updates = listFieldUpdates(args);
+  const overwritten = updates.filter((update) => {
+    const target = findFillTarget(update);
+    const current = target && isTextField(target) ? target.value.trim() : "";
 
-  const values = args.values;
-  if (isObject(values)) {
-    const updates = Object.entries(values).filter(
-      (entry): entry is [string, string] =>
-        typeof entry[0] === "string" && typeof entry[1] === "string"
-    );
+    return current !== "" && current !== update.value;
+  });
 
-    if (updates.length > 0) {
-      const outputs: string[] = [];
-      for (const [fieldName, value] of updates) {
-        try {
-          outputs.push(fillSingleField(call, fieldName, value, selector));
-        } catch (error) {
-          const text = error instanceof Error ? error.message : "Unknown field error.";
-          return result(call, false, text);
-        }
-      }
+  const fields = updates.map((update) => update.fieldName).join(", ");
+  if (overwritten.length === 0) {
+    return { risk: "auto", target: `Fields: ${fields}` };
+  }
+
+  return {
+    risk: "confirm",
+    target: `Fields: ${fields}`,
+    reason: `Overwrites text already entered in ${overwritten
+      .map((update) => update.fieldName)
+      .join(", ")}.`,
+  };
+}
+
+function previewFillInput(_call: ToolCall, args: ToolArgs<"fill_input">): ToolPreview {
+  const targets: PreviewTarget[] = [];
+  const lines: string[] = [];
+
+  for (const update of listFieldUpdates(args)) {
+    const match = locateFillTarget(update);
+    if (!match) {
+      return {
+        success: false,
+        summary: `Could not find input field for \"${update.fieldName}\".`,
+        targets,
+      };
+    }
 
-      return result(call, true, `Filled ${outputs.length} field(s): ${outputs.join(", ")}.`);
+    if (!isTextField(match.element)) {
+      return { success: false, summary: describeNotTextField(match.element), targets };
     }
+
+    const preview = toPreviewTarget(match, update.value);
+    targets.push(preview);
+    lines.push(`${update.fieldName} = \"${update.value.slice(0, 80)}\" in ${describeMatch(preview)}`);
+  }
+
+  if (targets.length === 0) {
+    return { success: false, summary: "values: provide at least one field.", targets };
+  }
+
+  return { success: true, summary: `Would fill ${lines.join("; ")}.`, targets };
+}
+
+function runFillInput(call: ToolCall, args: ToolArgs<"fill_input">): ToolResult {
+  const restores: FieldRestore[] = [];
+  const outcome = fillFields(call, args, restores);
+
+  if (restores.length > 0) {
+    recordUndo({
+      toolCallId: call.id,
+      label: `restore ${restores.map((item) => item.fieldName).join(", ")}`,
+      undo: () => [...restores].reverse().forEach((item) => item.restore()),
+    });
   }
 
-  const value = readString(args, "value");
-  if (!value) {
-    return result(call, false, "Missing input value.");
+  return outcome;
+}
+
+function fillFields(
+  call: ToolCall,
+  args: ToolArgs<"fill_input">,
+  restores: FieldRestore[]
+): ToolResult {
+  const updates = listFieldUpdates(args);
+
+  if (args.values) {
+    if (updates.length === 0) {
+      return result(call, false, "Invalid arguments for fill_input: values: provide at least one field.");
+    }
+
+    const outputs: string[] = [];
+    for (const update of updates) {
+      try {
+        outputs.push(fillSingleField(update, restores));
+      } catch (error) {
+        const text = error instanceof Error ? error.message : "Unknown field error.";
+        return result(call, false, text);
+      }
+    }
+
+    return result(call, true, `Filled ${outputs.length} field(s): ${outputs.join(", ")}.`);
   }
 
-  const fieldName = readString(args, "fieldName", "name", "field") ?? "input";
+  const [update] = updates;
 
   try {
-    const output = fillSingleField(call, fieldName, value, selector);
-    return result(call, true, `${output} with \"${value.slice(0, 80)}\".`);
+    const output = fillSingleField(update, restores);
+    return update.value
+      ? result(call, true, `${output} with \"${update.value.slice(0, 80)}\".`)
+      : result(call, true, `${output}: cleared.`);
   } catch (error) {
     const text = error instanceof Error ? error.message : "Could not fill input field.";
     return result(call, false, text);
   }
 }
 
-export function executeToolCall(call: ToolCall): ToolResult {
-  if (!isObject(call.args)) {
-    return result(call, false, "Invalid tool arguments.");
+function describeControl(element: HTMLElement): string {
+  return readFieldState(element)?.label || describeElement(element);
+}
+
+function locateControl(target: ControlTarget, query: string): ElementMatch | null {
+  if (target.ref) {
+    return { element: findElementByRef(target.ref.trim()), matchedBy: "ref" };
+  }
+
+  const selector = target.selector?.trim();
+  const bySelector = selector ? safeQuery(selector) : null;
+  if (bySelector && !isInsideChatUi(bySelector)) {
+    return { element: bySelector, matchedBy: "selector" };
+  }
+
+  const fieldName = target.fieldName?.trim();
+  const byFieldName = fieldName ? findInputByFieldName(fieldName, query) : null;
+  return byFieldName ? { element: byFieldName, matchedBy: "field name" } : null;
+}
+
+function optionText(option: HTMLOptionElement): string {
+  return normalizeText(option.textContent || option.value, 60);
+}
+
+function findOption(select: HTMLSelectElement, wanted: string): HTMLOptionElement | null {
+  const target = normalize(wanted);
+  const options = Array.from(select.options);
+
+  return (
+    options.find(
+      (option) =>
+        normalize(option.value) === target || normalize(option.textContent ?? "") === target
+    ) ??
+    options.find((option) => normalize(option.textContent ?? "").includes(target)) ??
+    null
+  );
+}
+
+function resolveOptionChoice(args: ToolArgs<"select_option">): OptionChoice | string {
+  const match = locateControl(args, "select");
+  if (!match) {
+    return "Could not find a dropdown to change.";
+  }
+
+  if (!(match.element instanceof HTMLSelectElement)) {
+    return `${describeElement(match.element)} is not a dropdown.`;
+  }
+
+  const select = match.element;
+  const option = findOption(select, args.option);
+  if (!option) {
+    const available = Array.from(select.options)
+      .filter((item) => !item.disabled)
+      .map((item) => `"${optionText(item)}"`)
+      .join(", ");
+    return `${describeControl(select)} has no option "${args.option}". Options: ${available || "none"}.`;
+  }
+
+  if (select.disabled || option.disabled) {
+    return `Option "${optionText(option)}" in ${describeControl(select)} is disabled.`;
+  }
+
+  return { select, option, matchedBy: match.matchedBy };
+}
+
+function previewSelectOption(_call: ToolCall, args: ToolArgs<"select_option">): ToolPreview {
+  const choice = resolveOptionChoice(args);
+  if (typeof choice === "string") {
+    return { success: false, summary: choice, targets: [] };
+  }
+
+  const text = optionText(choice.option);
+  const preview = toPreviewTarget({ element: choice.select, matchedBy: choice.matchedBy }, text);
+  return {
+    success: true,
+    summary: `Would select "${text}" in ${describeMatch(preview)}.`,
+    targets: [preview],
+  };
+}
+
+function runSelectOption(call: ToolCall, args: ToolArgs<"select_option">): ToolResult {
+  const choice = resolveOptionChoice(args);
+  if (typeof choice === "string") {
+    return result(call, false, choice);
+  }
+
+  const { select, option } = choice;
+  const label = describeControl(select);
+  const previous = select.value;
+
+  setFieldValue(select, option.value);
+  recordUndo({
+    toolCallId: call.id,
+    label: `restore ${label} selection`,
+    undo: () => setFieldValue(select, previous),
+  });
+  addHighlight(select);
+
+  return result(call, true, `Selected "${optionText(option)}" in ${label}.`);
+}
+
+function findRadioInGroup(radio: HTMLInputElement, wanted: string): HTMLInputElement | null {
+  const target = normalize(wanted);
+  const scope: ParentNode = radio.form ?? document;
+  const group = Array.from(
+    scope.querySelectorAll<HTMLInputElement>("input[type='radio']")
+  ).filter((item) => item.name === radio.name);
+
+  return (
+    group.find((item) => normalize(item.value) === target) ??
+    group.find((item) => normalize(readFieldState(item)?.label ?? "").includes(target)) ??
+    null
+  );
+}
+
+function findCheckedRadio(radio: HTMLInputElement): HTMLInputElement | null {
+  const scope: ParentNode = radio.form ?? document;
+  return (
+    Array.from(scope.querySelectorAll<HTMLInputElement>("input[type='radio']")).find(
+      (item) => item.name === radio.name && item.checked
+    ) ?? null
+  );
+}
+
+function resolveCheckable(args: ToolArgs<"set_checked">): ElementMatch | string {
+  const match = locateControl(args, CHECKABLE_SELECTOR);
+  if (!match) {
+    return "Could not find a checkbox or radio button.";
+  }
+
+  const element = match.element;
+  if (!(element instanceof HTMLInputElement) || !["checkbox", "radio"].includes(element.type)) {
+    return `${describeElement(element)} is not a checkbox or radio button.`;
+  }
+
+  let input = element;
+  const value = args.value?.trim();
+  if (input.type === "radio" && value) {
+    const radio = findRadioInGroup(input, value);
+    if (!radio) {
+      return `Radio group "${input.name}" has no option "${value}".`;
+    }
+    input = radio;
+  }
+
+  if (input.disabled) {
+    return `${describeControl(input)} is disabled.`;
+  }
+
+  if (input.type === "radio" && !args.checked) {
+    return "Radio buttons cannot be unchecked. Pick another option in the group instead.";
+  }
+
+  return { element: input, matchedBy: match.matchedBy };
+}
+
+function previewSetChecked(_call: ToolCall, args: ToolArgs<"set_checked">): ToolPreview {
+  const match = resolveCheckable(args);
+  if (typeof match === "string") {
+    return { success: false, summary: match, targets: [] };
+  }
+
+  const state = args.checked ? "checked" : "unchecked";
+  const preview = toPreviewTarget(match, state);
+  return {
+    success: true,
+    summary: `Would set ${describeControl(match.element)} to ${state}: ${describeMatch(preview)}.`,
+    targets: [preview],
+  };
+}
+
+function runSetChecked(call: ToolCall, args: ToolArgs<"set_checked">): ToolResult {
+  const match = resolveCheckable(args);
+  if (typeof match === "string") {
+    return result(call, false, match);
+  }
+
+  const input = match.element as HTMLInputElement;
+  const label = describeControl(input);
+  const state = args.checked ? "checked" : "unchecked";
+  addHighlight(input);
+
+  if (input.checked === args.checked) {
+    return result(call, true, `${label} was already ${state}.`);
+  }
+
+  const previousRadio = input.type === "radio" ? findCheckedRadio(input) : null;
+  input.click();
+
+  recordUndo({
+    toolCallId: call.id,
+    label: `restore ${label}`,
+    undo: () => {
+      if (previousRadio) {
+        previousRadio.click();
+      } else if (input.type === "checkbox") {
+        input.click();
+      } else {
+        input.checked = false;
+        input.dispatchEvent(new Event("change", { bubbles: true }));
+      }
+    },
+  });
+
+  return result(call, true, `${label} is now ${state}.`);
+}
+
+function findForm(args: ToolArgs<"submit_form">): HTMLFormElement | null {
+  const element = args.ref
+    ? findElementByRef(args.ref.trim())
+    : safeQuery(args.selector?.trim() || DEFAULT_FORM_SELECTOR);
+
+  if (!element || isInsideChatUi(element)) {
+    return null;
+  }
+
+  return element instanceof HTMLFormElement ? element : element.closest("form");
+}
+
+function describeForm(form: HTMLFormElement): string {
+  const name = form.getAttribute("aria-label") || form.id || form.getAttribute("name");
+  return name ? `form "${name}"` : "the form";
+}
+
+function assessSubmitForm(_call: ToolCall, args: ToolArgs<"submit_form">): ToolAssessment {
+  const form = findForm(args);
+  if (!form) {
+    return { risk: "auto", target: "No matching form" };
+  }
+
+  if (listInvalidFields(form).length > 0) {
+    return { risk: "auto", target: `${describeForm(form)} (fails validation, nothing is sent)` };
+  }
+
+  return { risk: "confirm", target: describeForm(form), reason: "Sends the form." };
+}
+
+function previewSubmitForm(_call: ToolCall, args: ToolArgs<"submit_form">): ToolPreview {
+  const form = findForm(args);
+  if (!form) {
+    return { success: false, summary: "Could not find a form to submit.", targets: [] };
+  }
+
+  const preview = toPreviewTarget({ element: form, matchedBy: args.ref ? "ref" : "selector" });
+  const invalid = listInvalidFields(form);
+  if (invalid.length > 0) {
+    return {
+      success: false,
+      summary: `Would not submit ${describeForm(form)}. Invalid fields: ${invalid.join("; ")}.`,
+      targets: [preview],
+    };
+  }
+
+  return {
+    success: true,
+    summary: `Would submit ${describeMatch(preview)} after your confirmation.`,
+    targets: [preview],
+  };
+}
+
+function runSubmitForm(call: ToolCall, args: ToolArgs<"submit_form">): ToolResult {
+  const form = findForm(args);
+  if (!form) {
+    return result(call, false, "Could not find a form to submit.");
+  }
+
+  form.scrollIntoView({ behavior: "smooth", block: "center" });
+  const invalid = listInvalidFields(form);
+  if (invalid.length > 0) {
+    form.reportValidity();
+    return result(
+      call,
+      false,
+      `${describeForm(form)} was not submitted. Invalid fields: ${invalid.join("; ")}.`
+    );
+  }
+
+  // Dispatching the event runs the page's submit handler without the native
+  // submission, so a form with no handler never navigates away and takes the
+  // user's details into the URL.
+  const submitted = form.dispatchEvent(new Event("submit", { bubbles: true, cancelable: true }));
+  if (submitted) {
+    return result(
+      call,
+      false,
+      `${describeForm(form)} has no submit handler on this page, so nothing was sent.`
+    );
+  }
+
+  return result(call, true, `Submitted ${describeForm(form)}; the page handled the send.`);
+}
+
+function resolveTourPlan(args: ToolArgs<"start_tour">): TourPlan {
+  const plan: TourPlan = { stops: [], skipped: [] };
+
+  args.stops.slice(0, MAX_TOUR_STOPS).forEach((stop, index) => {
+    const match = withStaleRefs(
+      () => locateElement(stop),
+      () => null
+    );
+    const hint = stop.ref ?? stop.selector ?? stop.sectionId ?? stop.text ?? "";
+
+    if (!match) {
+      plan.skipped.push(`stop ${index + 1} ("${hint}")`);
+      return;
+    }
+
+    plan.stops.push({
+      element: match.element,
+      caption: stop.caption.trim(),
+      label: match.element.id ? `#${match.element.id}` : describeElement(match.element),
+      matchedBy: match.matchedBy,
+    });
+  });
+
+  return plan;
+}
+
+function describeTourPlan(plan: TourPlan): string {
+  const stops = plan.stops.map((stop, index) => `${index + 1}. ${stop.label}`).join("; ");
+  const skipped =
+    plan.skipped.length > 0 ? ` Skipped ${plan.skipped.join(", ")}: not found on the page.` : "";
+
+  return `${plan.stops.length}-stop tour: ${stops}.${skipped}`;
+}
+
+function previewStartTour(_call: ToolCall, args: ToolArgs<"start_tour">): ToolPreview {
+  const plan = resolveTourPlan(args);
+  if (plan.stops.length === 0) {
+    return { success: false, summary: "Could not find any of the tour stops.", targets: [] };
+  }
+
+  return {
+    success: true,
+    summary: `Would start a ${describeTourPlan(plan)}`,
+    targets: plan.stops.map((stop) =>
+      toPreviewTarget({ element: stop.element, matchedBy: stop.matchedBy }, stop.caption)
+    ),
+  };
+}
+
+async function runStartTour(
+  call: ToolCall,
+  args: ToolArgs<"start_tour">
+): Promise<ToolResult> {
+  const plan = resolveTourPlan(args);
+  if (plan.stops.length === 0) {
+    return result(call, false, "Could not find any of the tour stops.");
+  }
+
+  const previous = captureViewState();
+  recordUndo({
+    toolCallId: call.id,
+    label: "end the tour and return to the previous position",
+    undo: () => {
+      exitTour();
+      restoreViewState(previous);
+    },
+  });
+
+  const seconds = args.autoAdvanceSeconds;
+  const autoAdvanceMs = seconds ? Math.min(20, Math.max(2, seconds)) * 1000 : null;
+  startTour(
+    call.id,
+    plan.stops.map(({ element, caption, label }) => ({ element, caption, label })),
+    autoAdvanceMs
+  );
+
+  return settledResult(
+    call,
+    true,
+    `Started a ${describeTourPlan(plan)} The user moves through it with Next, Previous, and Exit.`,
+    plan.stops[0].element
+  );
+}
+
+function runReadElement(call: ToolCall, args: ToolArgs<"read_element">): ToolResult {
+  const target = findElement(args);
+  if (!target) {
+    return result(call, false, "Could not find an element to read.");
+  }
+
+  const text = readFullText(target);
+  if (!text) {
+    return result(call, true, `${describeElement(target)} has no readable text.`);
+  }
+
+  const section = target.closest("section[id]")?.id;
+  const clipped =
+    text.length > MAX_READ_CHARS
+      ? `${text.slice(0, MAX_READ_CHARS)}\n[truncated after ${MAX_READ_CHARS} of ${text.length} characters]`
+      : text;
+
+  return result(
+    call,
+    true,
+    `Text of <${target.tagName.toLowerCase()}>${section ? ` in #${section}` : ""}:\n${clipped}`
+  );
+}
+
+function runFindInPage(call: ToolCall, args: ToolArgs<"find_in_page">): ToolResult {
+  const limit = Math.min(
+    MAX_SEARCH_LIMIT,
+    Math.max(1, Math.round(args.limit ?? DEFAULT_SEARCH_LIMIT))
+  );
+  const matches = findInPage(args.query, limit);
+
+  if (matches.length === 0) {
+    return result(call, true, `No matches for "${args.query}" on this page.`);
+  }
+
+  const lines = matches.map(
+    (match, index) =>
+      `${index + 1}. ${match.ref} <${match.tag}>${
+        match.sectionId ? ` in #${match.sectionId}` : ""
+      }: "${match.snippet}"`
+  );
+
+  return result(
+    call,
+    true,
+    `Found ${matches.length} match(es) for "${args.query}":\n${lines.join("\n")}`
+  );
+}
+
+function runListLinks(call: ToolCall, args: ToolArgs<"list_links">): ToolResult {
+  const kind = args.kind?.trim().toLowerCase();
+  if (kind && !LINK_KINDS.includes(kind as LinkKind)) {
+    return result(
+      call,
+      false,
+      `Invalid arguments for list_links: kind: expected one of ${LINK_KINDS.join(", ")}.`
+    );
+  }
+
+  const sectionHint = args.sectionId?.trim();
+  const section = sectionHint ? resolveSectionFromHint(sectionHint) : null;
+  if (sectionHint && !section) {
+    return result(call, false, `Section \"${sectionHint}\" was not found.`);
+  }
+
+  const links = listLinks({ sectionId: section?.id, kind: kind as LinkKind | undefined });
+  if (links.length === 0) {
+    return result(call, true, "No matching links on this page.");
+  }
+
+  const lines = links.map((link) => {
+    const notes = [link.kind, link.newTab ? "new tab" : ""].filter(Boolean).join(", ");
+    const where = link.sectionId ? ` in #${link.sectionId}` : "";
+    return `${link.ref} "${link.text}" -> ${link.href} (${notes})${where}`;
+  });
+
+  return result(call, true, `${links.length} link(s):\n${lines.join("\n")}`);
+}
+
+function previewUndoLastAction(
+  _call: ToolCall,
+  args: ToolArgs<"undo_last_action">
+): ToolPreview {
+  const labels = peekUndo()
+    .slice(-Math.max(1, Math.round(args.count ?? 1)))
+    .reverse()
+    .map((entry) => entry.label);
+
+  return {
+    success: labels.length > 0,
+    summary: labels.length > 0 ? `Would undo: ${labels.join(", ")}.` : "Nothing to undo.",
+    targets: [],
+  };
+}
+
+async function runUndoLastAction(
+  call: ToolCall,
+  args: ToolArgs<"undo_last_action">
+): Promise<ToolResult> {
+  const outcomes = undoLast(Math.round(args.count ?? 1));
+
+  return settledResult(
+    call,
+    outcomes.length > 0 && outcomes.every((outcome) => outcome.success),
+    describeUndoOutcomes(outcomes)
+  );
+}
+
+function withStaleRefs<T>(run: () => T, onStale: (message: string) => T): T {
+  try {
+    return run();
+  } catch (error) {
+    if (error instanceof StaleRefError) {
+      return onStale(error.message);
+    }
+
+    throw error;
+  }
+}
+
+async function withStaleRefsAsync<T>(
+  run: () => T | Promise<T>,
+  onStale: (message: string) => T
+): Promise<T> {
+  try {
+    return await run();
+  } catch (error) {
+    if (error instanceof StaleRefError) {
+      return onStale(error.message);
+    }
+
+    throw error;
+  }
+}
+
+function builtinTool<Name extends BuiltinToolName>(
+  name: Name,
+  execute: ToolExecutor<Name>,
+  hooks: { assess?: ToolAssessor<Name>; preview?: ToolPreviewer<Name>; readOnly?: boolean } = {}
+): ToolDefinition {
+  const { assess, preview, readOnly } = hooks;
+  const { description, parameters } = BUILTIN_TOOL_SCHEMAS[name];
+  const tool = defineTool<ObjectSchema>({
+    name,
+    description,
+    parameters,
+    execute(call, args) {
+      return withStaleRefsAsync(
+        () => execute(call, args as ToolArgs<Name>),
+        (message) => result(call, false, message)
+      );
+    },
+  });
+
+  if (assess) {
+    tool.assess = (call, args) =>
+      withStaleRefs(
+        () => assess(call, args as ToolArgs<Name>),
+        (message) => ({ risk: "auto", target: message })
+      );
+  }
+
+  if (readOnly) {
+    tool.readOnly = true;
   }
 
-  switch (call.name) {
-    case "scroll_by":
-      return runScrollBy(call, call.args);
-    case "navigate_to_section":
-      return runNavigateToSection(call, call.args);
-    case "click_element":
-      return runClickElement(call, call.args);
-    case "highlight_element":
-      return runHighlightElement(call, call.args);
-    case "fill_input":
-      return runFillInput(call, call.args);
-    default:
-      return result(call, false, `Unknown tool \"${call.name}\".`);
+  if (preview) {
+    tool.preview = (call, args) =>
+      withStaleRefs(
+        () => preview(call, args as ToolArgs<Name>),
+        (message) => ({ success: false, summary: message, targets: [] })
+      );
   }
+
+  return tool;
 }
+
+export const BUILTIN_TOOLS: ToolDefinition[] = [
+  builtinTool("scroll_by", runScrollBy, { preview: previewScrollBy }),
+  builtinTool("navigate_to_section", runNavigateToSection, {
+    preview: previewNavigateToSection,
+  }),
+  builtinTool("click_element", runClickElement, {
+    assess: assessClickElement,
+    preview: previewClickElement,
+  }),
+  builtinTool("highlight_element", runHighlightElement, { preview: previewHighlightElement }),
+  builtinTool("fill_input", runFillInput, {
+    assess: assessFillInput,
+    preview: previewFillInput,
+  }),
+  builtinTool("select_option", runSelectOption, { preview: previewSelectOption }),
+  builtinTool("set_checked", runSetChecked, { preview: previewSetChecked }),
+  builtinTool("submit_form", runSubmitForm, {
+    assess: assessSubmitForm,
+    preview: previewSubmitForm,
+  }),
+  builtinTool("start_tour", runStartTour, { preview: previewStartTour }),
+  builtinTool("read_element", runReadElement, { readOnly: true }),
+  builtinTool("find_in_page", runFindInPage, { readOnly: true }),
+  builtinTool("list_links", runListLinks, { readOnly: true }),
+  builtinTool("undo_last_action", runUndoLastAction, { preview: previewUndoLastAction }),
+];
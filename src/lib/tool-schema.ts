@@ -0,0 +1,239 @@
+export type ToolParameterType = "object" | "string" | "number" | "boolean" | "array";
+
+export interface ToolParameterSchema {
+  type: ToolParameterType;
+  description?: string;
+  properties?: Record<string, ToolParameterSchema>;
+  items?: ToolParameterSchema;
+  required?: string[];
+}
+
+export interface StringField extends ToolParameterSchema {
+  type: "string";
+  // Checked after trimming. Set it where a blank value means nothing, such as
+  // refs and section ids; field values may be empty to clear a field.
+  minLength?: number;
+}
+
+export interface NumberField extends ToolParameterSchema {
+  type: "number";
+}
+
+export interface BooleanField extends ToolParameterSchema {
+  type: "boolean";
+}
+
+export interface ArrayField<Item extends Field> extends ToolParameterSchema {
+  type: "array";
+  items: Item;
+}
+
+export interface ObjectSchema extends ToolParameterSchema {
+  type: "object";
+  properties: Record<string, Field>;
+  required: string[];
+  requireOneOf?: string[][];
+}
+
+export interface ObjectField<
+  Properties extends Record<string, Field>,
+  Required extends keyof Properties & string,
+> extends ObjectSchema {
+  properties: Properties;
+  required: Required[];
+  requireOneOf?: (keyof Properties & string)[][];
+}
+
+export type Field =
+  | StringField
+  | NumberField
+  | BooleanField
+  | ArrayField<Field>
+  | ObjectSchema;
+
+export type InferField<F> =
+  F extends StringField
+    ? string
+    : F extends NumberField
+      ? number
+      : F extends BooleanField
+        ? boolean
+        : F extends ArrayField<infer Item>
+          ? InferField<Item>[]
+          : F extends ObjectField<infer Properties, string>
+            ? InferObject<Properties, F["required"][number]>
+            : never;
+
+type InferObject<Properties, Required extends keyof Properties> = {
+  [K in Required]: InferField<Properties[K]>;
+} & {
+  [K in Exclude<keyof Properties, Required>]?: InferField<Properties[K]>;
+};
+
+export const schema = {
+  string: (description: string, options: { minLength?: number } = {}): StringField => ({
+    type: "string",
+    description,
+    ...(options.minLength ? { minLength: options.minLength } : {}),
+  }),
+  number: (description: string): NumberField => ({ type: "number", description }),
+  boolean: (description: string): BooleanField => ({ type: "boolean", description }),
+  array: <Item extends Field>(description: string, items: Item): ArrayField<Item> => ({
+    type: "array",
+    description,
+    items,
+  }),
+  object: <
+    Properties extends Record<string, Field>,
+    Required extends keyof Properties & string = never,
+  >(
+    properties: Properties,
+    options: {
+      description?: string;
+      required?: Required[];
+      requireOneOf?: (keyof Properties & string)[][];
+    } = {}
+  ): ObjectField<Properties, NoInfer<Required>> => {
+    const field: ObjectField<Properties, Required> = {
+      type: "object",
+      properties,
+      required: options.required ?? [],
+    };
+
+    if (options.description) {
+      field.description = options.description;
+    }
+
+    if (options.requireOneOf) {
+      field.requireOneOf = options.requireOneOf;
+    }
+
+    return field;
+  },
+};
+
+export function toParameterSchema(field: Field): ToolParameterSchema {
+  const converted: ToolParameterSchema = { type: field.type };
+
+  if (field.description) {
+    converted.description = field.description;
+  }
+
+  if (field.type === "array") {
+    converted.items = toParameterSchema(field.items);
+  }
+
+  if (field.type === "object") {
+    converted.properties = Object.fromEntries(
+      Object.entries(field.properties).map(([key, value]) => [key, toParameterSchema(value)])
+    );
+
+    if (field.required.length > 0) {
+      converted.required = [...field.required];
+    }
+  }
+
+  return converted;
+}
+
+export type ValidationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; errors: string[] };
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function describeType(value: unknown): string {
+  if (value === null) {
+    return "null";
+  }
+
+  return Array.isArray(value) ? "array" : typeof value;
+}
+
+function validateField(field: Field, value: unknown, path: string): string[] {
+  const label = path || "arguments";
+
+  switch (field.type) {
+    case "string":
+      if (typeof value !== "string") {
+        return [`${label}: expected string, got ${describeType(value)}`];
+      }
+      if (field.minLength && value.trim().length < field.minLength) {
+        return [
+          field.minLength === 1
+            ? `${label}: must not be empty`
+            : `${label}: must be at least ${field.minLength} characters`,
+        ];
+      }
+      return [];
+    case "number":
+      return typeof value === "number" && Number.isFinite(value)
+        ? []
+        : [`${label}: expected finite number, got ${describeType(value)}`];
+    case "boolean":
+      return typeof value === "boolean"
+        ? []
+        : [`${label}: expected boolean, got ${describeType(value)}`];
+    case "array":
+      if (!Array.isArray(value)) {
+        return [`${label}: expected array, got ${describeType(value)}`];
+      }
+      return value.flatMap((item, index) =>
+        validateField(field.items, item, `${label}[${index}]`)
+      );
+    case "object":
+      return validateObject(field, value, path);
+  }
+}
+
+function validateObject(
+  field: ObjectSchema,
+  value: unknown,
+  path: string
+): string[] {
+  const label = path || "arguments";
+  if (!isRecord(value)) {
+    return [`${label}: expected object, got ${describeType(value)}`];
+  }
+
+  const properties = field.properties;
+  const prefix = path ? `${path}.` : "";
+  const errors: string[] = [];
+
+  for (const key of field.required) {
+    if (value[key] === undefined) {
+      errors.push(`${prefix}${key}: is required`);
+    }
+  }
+
+  for (const [key, item] of Object.entries(value)) {
+    const property = properties[key];
+    if (!property) {
+      const allowed = Object.keys(properties).join(", ") || "none";
+      errors.push(`${prefix}${key}: is not a declared argument (allowed: ${allowed})`);
+    } else if (item !== undefined) {
+      errors.push(...validateField(property, item, `${prefix}${key}`));
+    }
+  }
+
+  for (const group of field.requireOneOf ?? []) {
+    if (!group.some((key) => value[key] !== undefined)) {
+      errors.push(`${label}: provide one of ${group.join(", ")}`);
+    }
+  }
+
+  return errors;
+}
+
+export function validateArgs<F extends Field>(
+  field: F,
+  value: unknown
+): ValidationResult<InferField<F>> {
+  const errors = validateField(field, value, "");
+
+  return errors.length > 0
+    ? { ok: false, errors }
+    : { ok: true, value: value as InferField<F> };
+}
@@ -1,9 +1,13 @@
+import type { ToolDeclaration } from "@/lib/tool-definitions";
+
 export type ChatRole = "user" | "assistant" | "tool";
 
 export interface ChatMessage {
   role: ChatRole;
   content: string;
   createdAt: string;
+  toolCall?: ToolCall;
+  toolResult?: ToolResult;
 }
 
 export interface SectionData {
@@ -12,7 +16,30 @@ export interface SectionData {
   textPreview: string;
 }
 
+export type ViewportPosition = "in_viewport" | "above" | "below";
+
+export interface FormFieldState {
+  label: string;
+  value: string;
+  redacted: boolean;
+  required: boolean;
+  invalid: boolean;
+  validationMessage: string;
+  options?: string[];
+}
+
+export interface FormSummary {
+  ref: string;
+  id: string;
+  name: string;
+  filled: string[];
+  empty: string[];
+  missingRequired: string[];
+  invalid: string[];
+}
+
 export interface ElementData {
+  ref: string;
   selector: string;
   tag: string;
   text: string;
@@ -21,22 +48,76 @@ export interface ElementData {
   inputName: string;
   inputType: string;
   sectionId: string;
+  viewportPosition: ViewportPosition;
+  field?: FormFieldState;
+}
+
+export type SnapshotMode = "dom" | "accessibility";
+
+export interface ScrollPosition {
+  x: number;
+  y: number;
+}
+
+export interface ViewportState {
+  width: number;
+  height: number;
+  documentHeight: number;
+  currentSectionId: string;
 }
 
 export interface PageSnapshot {
   url: string;
   title: string;
   capturedAt: string;
+  mode: SnapshotMode;
+  scroll: ScrollPosition;
+  viewport: ViewportState;
   sections: SectionData[];
   elements: ElementData[];
+  forms: FormSummary[];
+  accessibilityTree?: string;
+}
+
+export interface SnapshotChanges<T> {
+  added: T[];
+  removed: string[];
+  changed: T[];
+  order?: string[];
 }
 
-export type ToolName =
+export interface SnapshotDiff {
+  baseVersion: number;
+  version: number;
+  url: string;
+  title: string;
+  capturedAt: string;
+  mode: SnapshotMode;
+  scroll: ScrollPosition;
+  viewport: ViewportState;
+  sections: SnapshotChanges<SectionData>;
+  elements: SnapshotChanges<ElementData>;
+  forms: SnapshotChanges<FormSummary>;
+  accessibilityTree?: string;
+}
+
+export type BuiltinToolName =
   | "scroll_by"
   | "navigate_to_section"
   | "click_element"
   | "highlight_element"
-  | "fill_input";
+  | "fill_input"
+  | "select_option"
+  | "set_checked"
+  | "submit_form"
+  | "start_tour"
+  | "read_element"
+  | "find_in_page"
+  | "list_links"
+  | "undo_last_action";
+
+// Pages can register their own tools at runtime, so any name is allowed.
+export type ToolName = BuiltinToolName | (string & {});
 
 export interface ToolCall {
   id: string;
@@ -51,15 +132,60 @@ export interface ToolResult {
   output: string;
 }
 
+// Actions the user took in the chat panel rather than on a model request. The
+// route checks each one against the session before adding it to the transcript.
+export type PanelAction =
+  | { kind: "undo"; toolCall: ToolCall; toolResult: ToolResult; undoneCallIds: string[] }
+  | { kind: "plan_run"; toolCall: ToolCall; toolResult: ToolResult; previewCallId: string }
+  | { kind: "jump"; toolCall: ToolCall; toolResult: ToolResult }
+  | { kind: "late_result"; toolCall: ToolCall; toolResult: ToolResult };
+
+export type AgentStopReason = "completed" | "max_steps" | "repeated_call";
+
 export interface ChatRequest {
   message: string;
   history: ChatMessage[];
-  pageSnapshot: PageSnapshot;
+  pageSnapshot?: PageSnapshot;
+  snapshotDiff?: SnapshotDiff;
+  snapshotVersion: number;
+  snapshotClientId: string;
+  tools?: ToolDeclaration[];
+  toolCalls?: ToolCall[];
   toolResults?: ToolResult[];
+  panelActions?: PanelAction[];
+  step?: number;
+  stream?: boolean;
+  sessionId?: string;
 }
 
 export interface ChatResponse {
   assistantMessage: string;
   toolCalls?: ToolCall[];
   awaitingToolResults: boolean;
+  stopReason?: AgentStopReason;
+  snapshotVersion?: number;
+  snapshotResync?: boolean;
+  sessionId?: string;
+  sessionExpired?: boolean;
+}
+
+export interface MemoryFacts {
+  name?: string;
+  email?: string;
+  company?: string;
+  role?: string;
+  interests?: string[];
 }
+
+export interface MemoryResponse {
+  sessionId: string;
+  summary: string;
+  facts: MemoryFacts;
+}
+
+export type ChatStreamEvent =
+  | { type: "delta"; text: string }
+  | { type: "tool_call"; toolCall: ToolCall }
+  | { type: "reset" }
+  | { type: "done"; response: ChatResponse }
+  | { type: "error"; message: string };
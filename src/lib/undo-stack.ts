@@ -0,0 +1,80 @@
+const MAX_UNDO_ENTRIES = 30;
+
+export interface UndoEntry {
+  toolCallId: string;
+  label: string;
+  undo(): void;
+}
+
+export interface UndoOutcome {
+  toolCallId: string;
+  label: string;
+  success: boolean;
+}
+
+const entries: UndoEntry[] = [];
+const listeners = new Set<() => void>();
+let snapshot: UndoEntry[] = [];
+
+function notify(): void {
+  snapshot = [...entries];
+  listeners.forEach((listener) => listener());
+}
+
+export function recordUndo(entry: UndoEntry): void {
+  entries.push(entry);
+  if (entries.length > MAX_UNDO_ENTRIES) {
+    entries.shift();
+  }
+  notify();
+}
+
+function runUndo(selected: UndoEntry[]): UndoOutcome[] {
+  if (selected.length === 0) {
+    return [];
+  }
+
+  const outcomes = selected.map((entry) => {
+    entries.splice(entries.indexOf(entry), 1);
+
+    try {
+      entry.undo();
+      return { toolCallId: entry.toolCallId, label: entry.label, success: true };
+    } catch {
+      return { toolCallId: entry.toolCallId, label: entry.label, success: false };
+    }
+  });
+
+  notify();
+  return outcomes;
+}
+
+export function undoLast(count = 1): UndoOutcome[] {
+  return runUndo(entries.slice(-Math.max(1, count)).reverse());
+}
+
+export function undoToolCalls(toolCallIds: string[]): UndoOutcome[] {
+  const ids = new Set(toolCallIds);
+  return runUndo(entries.filter((entry) => ids.has(entry.toolCallId)).reverse());
+}
+
+export function peekUndo(): UndoEntry[] {
+  return snapshot;
+}
+
+export function subscribeUndo(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function describeUndoOutcomes(outcomes: UndoOutcome[]): string {
+  if (outcomes.length === 0) {
+    return "Nothing to undo.";
+  }
+
+  return outcomes
+    .map((outcome) => (outcome.success ? `Undid: ${outcome.label}.` : `Could not undo: ${outcome.label}.`))
+    .join(" ");
+}